@@ -0,0 +1,66 @@
+// Unit test suite for EncryptedNutCodec code.
+
+import { assert } from "chai";
+import * as crypto from 'crypto';
+import { EncryptedNutCodec, EncryptedNutContents, SqrlUrlFactory } from '../passport-sqrl';
+
+describe('EncryptedNutCodec', () => {
+  describe('QrCodeNutRoundTrip', () => {
+    it('should decode the issue time, requester IP, and QR flag from a QR-code nut', () => {
+      let codec = new EncryptedNutCodec(crypto.randomBytes(32));
+      let before = Math.floor(Date.now() / 1000) * 1000;
+      let nut = SqrlUrlFactory.nutToString(codec.createQrCodeNut('192.168.1.20'));
+
+      let contents = <EncryptedNutContents> codec.decode(nut);
+      assert.isNotNull(contents);
+      assert.isTrue(contents.isQrCodeNut);
+      assert.equal(contents.requesterIp, '192.168.1.20');
+      assert.isTrue(contents.issuedAt.getTime() >= before);
+      assert.isTrue(contents.issuedAt.getTime() <= Date.now());
+      assert.isUndefined(contents.originalLoginNut);
+    });
+  });
+
+  describe('FollowUpNutRoundTrip', () => {
+    it('should decode the lineage and response digest from a follow-up nut', () => {
+      let codec = new EncryptedNutCodec(crypto.randomBytes(32));
+      let qrNut = SqrlUrlFactory.nutToString(codec.createQrCodeNut());
+      let digest = EncryptedNutCodec.responseDigest('ver=1\r\nnut=\r\n', '');
+      let nut = SqrlUrlFactory.nutToString(codec.createFollowUpNut('::1', digest, qrNut));
+
+      let contents = <EncryptedNutContents> codec.decode(nut);
+      assert.isFalse(contents.isQrCodeNut);
+      assert.equal(contents.requesterIp, '::1');
+      assert.equal(contents.originalLoginNut, qrNut);
+      assert.isTrue((<Buffer> contents.serverResponseDigest).equals(digest));
+
+      let qrContents = <EncryptedNutContents> codec.decode(qrNut);
+      assert.notEqual(contents.counter, qrContents.counter, 'Counter should advance per nut');
+    });
+  });
+
+  describe('TamperedNutFails', () => {
+    it('should return null for nuts that are altered, truncated, or encrypted with another key', () => {
+      let key = crypto.randomBytes(32);
+      let codec = new EncryptedNutCodec(key);
+      let nutBytes = codec.createQrCodeNut('10.0.0.1');
+
+      let altered = Buffer.from(nutBytes);
+      altered[14] = altered[14] === 0 ? 1 : 0;
+      assert.isNull(codec.decode(SqrlUrlFactory.nutToString(altered)));
+      assert.isNull(codec.decode(SqrlUrlFactory.nutToString(nutBytes.slice(0, 20))));
+      assert.isNull(codec.decode('not-a-nut'));
+      assert.isNull(new EncryptedNutCodec(crypto.randomBytes(32)).decode(SqrlUrlFactory.nutToString(nutBytes)));
+      assert.isNotNull(new EncryptedNutCodec(key).decode(SqrlUrlFactory.nutToString(nutBytes)));
+    });
+  });
+
+  describe('ResponseDigestIgnoresNut', () => {
+    it('should produce the same digest for a response body with and without its nut', () => {
+      let withNut = EncryptedNutCodec.responseDigest('ver=1\r\nnut=abc123\r\nqry=/sqrl?nut=abc123\r\n', 'abc123');
+      let withoutNut = EncryptedNutCodec.responseDigest('ver=1\r\nnut=\r\nqry=/sqrl?nut=\r\n', '');
+      assert.isTrue(withNut.equals(withoutNut));
+      assert.isFalse(withNut.equals(EncryptedNutCodec.responseDigest('ver=1\r\nnut=\r\nqry=/evil?nut=\r\n', '')));
+    });
+  });
+});
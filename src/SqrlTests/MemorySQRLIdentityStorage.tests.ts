@@ -0,0 +1,208 @@
+// Unit test suite for MemorySQRLIdentityStorage code.
+
+import base64url from 'base64url';
+import { assert } from "chai";
+import { AuthCompletionInfo, AuthenticateAsyncResult, ClientRequestInfo, LoginStatusInfo, MemoryIdentityStorageConfig, MemorySQRLIdentityStorage, NutInfo, SQRLApiRequest, SQRLEngine, SQRLStrategyConfig, SQRLUserRecord, TIFFlags, UrlAndNut } from '../passport-sqrl';
+import { MockLogger } from '../SqrlTests/MockLogger';
+import { MockSQRLClient, ServerResponseInfo } from './MockSQRLClient';
+
+describe('MemorySQRLIdentityStorage', () => {
+  describe('nutConsumedOnce', () => {
+    it('should report the first consumer of a nut on every later call', async () => {
+      let storage = new MemorySQRLIdentityStorage();
+      try {
+        await storage.nutIssuedToClientAsync(new UrlAndNut('sqrl://foo.com/login?nut=1234', '1234', '1234'));
+        let nutInfo = <NutInfo> await storage.consumeNutAsync('1234', 'request1');
+        assert.equal(nutInfo.url, 'sqrl://foo.com/login?nut=1234');
+        assert.isUndefined(nutInfo.consumedByRequest);
+        nutInfo = <NutInfo> await storage.consumeNutAsync('1234', 'request2');
+        assert.equal(nutInfo.consumedByRequest, 'request1');
+        assert.isNull(await storage.consumeNutAsync('5678', 'request1'));
+      } finally {
+        storage.dispose();
+      }
+    });
+  });
+
+  describe('expiredNutsAndLoginsForgotten', () => {
+    it('should not return nuts or logins after their time to live', async () => {
+      let storage = new MemorySQRLIdentityStorage(<MemoryIdentityStorageConfig> { nutTimeToLiveSeconds: 0 });
+      try {
+        await storage.nutIssuedToClientAsync(new UrlAndNut('sqrl://foo.com/login?nut=1234', '1234', '1234'));
+        await storage.loginCompletedAsync('1234', { name: 'bob' });
+        assert.isNull(await storage.consumeNutAsync('1234', 'request1'));
+        assert.isNull(await storage.getLoginStatusAsync('1234'));
+        assert.isNull(await storage.consumeCompletedLoginAsync('1234'));
+      } finally {
+        storage.dispose();
+      }
+    });
+
+    it('should sweep expired nuts and logins from memory', async () => {
+      let storage = new MemorySQRLIdentityStorage(<MemoryIdentityStorageConfig> {
+        nutTimeToLiveSeconds: 0.001,
+        sweepIntervalSeconds: 0.01,
+      });
+      try {
+        await storage.nutIssuedToClientAsync(new UrlAndNut('sqrl://foo.com/login?nut=1234', '1234', '1234'));
+        await storage.identityDisabledAtLoginAsync('1234');
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert.equal((<any> storage).nuts.size, 0);
+        assert.equal((<any> storage).logins.size, 0);
+      } finally {
+        storage.dispose();
+      }
+    });
+  });
+
+  describe('loginStatusFollowsNutLineage', () => {
+    it('should report and consume a completed login through follow-up nuts', async () => {
+      let storage = new MemorySQRLIdentityStorage();
+      try {
+        let qrNut = new UrlAndNut('sqrl://foo.com/login?nut=1234', '1234', '1234');
+        await storage.nutIssuedToClientAsync(qrNut);
+        await storage.nutIssuedToClientAsync(new UrlAndNut('/login?nut=5678', '5678', '5678'), '1234');
+        let status = <LoginStatusInfo> await storage.getLoginStatusAsync('5678');
+        assert.equal(status.issuedAt, qrNut.issuedAt);
+        assert.isFalse(status.loginCompleted);
+
+        await storage.loginCompletedAsync('1234', { name: 'bob' });
+        assert.isTrue((<LoginStatusInfo> await storage.getLoginStatusAsync('1234')).loginCompleted);
+        assert.deepEqual(await storage.consumeCompletedLoginAsync('5678'), { name: 'bob' });
+        assert.isNull(await storage.consumeCompletedLoginAsync('1234'));
+      } finally {
+        storage.dispose();
+      }
+    });
+  });
+
+  describe('identRekeysFromPreviousIdentity', () => {
+    it('should move the user to the new identity key and keep the last four previous keys', async () => {
+      let storage = new MemorySQRLIdentityStorage();
+      try {
+        let result: AuthCompletionInfo = await storage.identAsync(<ClientRequestInfo> {
+          primaryIdentityPublicKey: 'key0',
+          serverVerifyUnlockPublicKey: 'vuk0',
+        }, <NutInfo> {});
+        assert.equal(result.tifValues, 0);
+        assert.equal((<SQRLUserRecord> result.user).primaryIdentityPublicKey, 'key0');
+
+        for (let i = 1; i <= 5; i++) {
+          let clientRequestInfo = <ClientRequestInfo> {
+            previousIdentityPublicKey: 'key' + (i - 1),
+            primaryIdentityPublicKey: 'key' + i,
+            serverVerifyUnlockPublicKey: 'vuk' + i,
+          };
+          result = await storage.queryAsync(clientRequestInfo, <NutInfo> {});
+          assert.equal(result.tifValues, TIFFlags.PreviousIDMatch);
+          result = await storage.identAsync(clientRequestInfo, <NutInfo> {});
+          assert.equal(result.tifValues, TIFFlags.PreviousIDMatch);
+        }
+
+        let user = <SQRLUserRecord> await storage.getUserAsync('key5');
+        assert.deepEqual(user.previousIdentityPublicKeys, ['key4', 'key3', 'key2', 'key1']);
+        assert.isNull(await storage.getUserAsync('key4'));
+        assert.equal(await storage.getServerVerifyUnlockKeyAsync('key5'), 'vuk5');
+      } finally {
+        storage.dispose();
+      }
+    });
+  });
+
+  describe('previousKeysAfterRekeyDedupedAndBounded', () => {
+    it('should put the replaced key first without duplicates or the new key, keeping four', () => {
+      assert.deepEqual(SQRLUserRecord.previousKeysAfterRekey([], 'key0', 'key1'), ['key0']);
+      assert.deepEqual(SQRLUserRecord.previousKeysAfterRekey(['key3', 'key2', 'key1', 'key0'], 'key4', 'key5'), ['key4', 'key3', 'key2', 'key1']);
+      assert.deepEqual(SQRLUserRecord.previousKeysAfterRekey(['key1', 'key0', 'key2'], 'key2', 'key3'), ['key2', 'key1', 'key0']);
+      assert.deepEqual(SQRLUserRecord.previousKeysAfterRekey(['key1', 'key0'], 'key2', 'key0'), ['key2', 'key1']);
+    });
+  });
+
+  describe('rekeyFindsKnownPreviousIdentityThroughQueryRounds', () => {
+    it('should match one previous identity per query, return its suk, then rekey on ident', async () => {
+      let storage = new MemorySQRLIdentityStorage();
+      let engine = new SQRLEngine(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+      try {
+        let urlAndNut: UrlAndNut = engine.getSqrlUrl(<SQRLApiRequest> {});
+        await storage.nutIssuedToClientAsync(urlAndNut);
+        let client = new MockSQRLClient(urlAndNut.url, /*numPreviousIdentities:*/4);
+        let sendAsync = async (cmd: string): Promise<ServerResponseInfo> => {
+          let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> {
+            method: 'POST',
+            params: client.generatePostBody(cmd),
+          });
+          return client.parseServerBody(result.body || '');
+        };
+
+        // The site knows the user by the client's third previous identity.
+        let knownKey: string = base64url.encode(client.previousIdentityPublicKeys[2]);
+        await storage.identAsync(<ClientRequestInfo> {
+          primaryIdentityPublicKey: knownKey,
+          serverUnlockPublicKey: 'suk0',
+          serverVerifyUnlockPublicKey: base64url.encode(client.serverVerifyUnlockPublicKey),
+        }, <NutInfo> {});
+
+        for (let round = 0; round < 2; round++) {
+          let res: ServerResponseInfo = await sendAsync('query');
+          assert.equal(res.tifValues, 0, 'Round ' + round);
+          assert.isUndefined(res.serverUnlockKey);
+        }
+        let matchRes: ServerResponseInfo = await sendAsync('query');
+        assert.equal(matchRes.tifValues, TIFFlags.PreviousIDMatch);
+        assert.equal(matchRes.serverUnlockKey, 'suk0', 'suk should be returned with a previous identity match');
+
+        assert.equal((await sendAsync('ident')).tifValues, TIFFlags.PreviousIDMatch);
+        let user = <SQRLUserRecord> await storage.consumeCompletedLoginAsync(urlAndNut.nutString);
+        assert.equal(user.primaryIdentityPublicKey, base64url.encode(client.primaryIdentityPublicKey));
+        assert.deepEqual(user.previousIdentityPublicKeys, [knownKey]);
+        assert.equal(user.serverUnlockPublicKey, base64url.encode(client.serverUnlockPublicKey));
+        assert.isNull(await storage.getUserAsync(knownKey));
+        assert.equal((await sendAsync('query')).tifValues, TIFFlags.CurrentIDMatch);
+      } finally {
+        storage.dispose();
+      }
+    });
+  });
+
+  describe('disableEnableRemoveLifecycle', () => {
+    it('should refuse logins while disabled and after removal', async () => {
+      let storage = new MemorySQRLIdentityStorage();
+      let engine = new SQRLEngine(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+      try {
+        let urlAndNut: UrlAndNut = engine.getSqrlUrl(<SQRLApiRequest> {});
+        await storage.nutIssuedToClientAsync(urlAndNut);
+        let client = new MockSQRLClient(urlAndNut.url);
+        let sendAsync = async (cmd: string): Promise<TIFFlags> => {
+          let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> {
+            method: 'POST',
+            params: client.generatePostBody(cmd),
+          });
+          return client.parseServerBody(result.body || '').tifValues;
+        };
+
+        assert.equal(await sendAsync('query'), 0);
+        assert.equal(await sendAsync('ident'), 0);
+        let user = <SQRLUserRecord> await storage.consumeCompletedLoginAsync(urlAndNut.nutString);
+        assert.isFalse(user.disabled);
+
+        // tslint:disable:no-bitwise
+        assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+        assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+        assert.equal(await sendAsync('query'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+        assert.equal(await sendAsync('ident'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled | TIFFlags.CommandFailed);
+        assert.isTrue((<LoginStatusInfo> await storage.getLoginStatusAsync(urlAndNut.nutString)).identityDisabled);
+
+        assert.equal(await sendAsync('enable'), TIFFlags.CurrentIDMatch);
+        assert.equal(await sendAsync('ident'), TIFFlags.CurrentIDMatch);
+        assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+        assert.equal(await sendAsync('remove'), 0);
+        assert.isNull(await storage.getUserAsync(user.primaryIdentityPublicKey));
+        assert.equal(await sendAsync('query'), 0);
+        assert.equal(await sendAsync('ident'), TIFFlags.CommandFailed);
+        // tslint:enable:no-bitwise
+      } finally {
+        storage.dispose();
+      }
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { IRedisClient, IRedisTransaction } from '../passport-sqrl';
+
+/**
+ * An in-memory stand-in for a Redis server, implementing the GET, SET (with PX and NX),
+ * DEL, WATCH, and MULTI semantics used through IRedisClient. Share one instance between several
+ * storage objects to simulate the servers of a cluster, or give each a duplicate() to also
+ * give each its own connection for WATCH.
+ */
+export class MockRedisClient implements IRedisClient {
+  /** How many transactions exec() refused because a watched key changed. */
+  public execConflicts: number = 0;
+
+  private values = new Map<string, { value: string, expiresAt?: number }>();
+
+  /** A count of writes per key, shared with duplicates, by which WATCH detects changes. */
+  private versions = new Map<string, number>();
+
+  /** The versions of the keys watched on this connection. */
+  private watched = new Map<string, number>();
+
+  /** Returns a new connection to the same data, as ioredis's duplicate(). */
+  public duplicate(): MockRedisClient {
+    let connection = new MockRedisClient();
+    connection.values = this.values;
+    connection.versions = this.versions;
+    return connection;
+  }
+
+  public get(key: string): Promise<string | null> {
+    return Promise.resolve(this.getValue(key));
+  }
+
+  public set(key: string, value: string, ...args: Array<string | number>): Promise<string | null> {
+    return Promise.resolve(this.setValue(key, value, args));
+  }
+
+  public del(...keys: string[]): Promise<number> {
+    return Promise.resolve(this.deleteValues(keys));
+  }
+
+  public watch(...keys: string[]): Promise<string> {
+    keys.forEach(key => this.watched.set(key, this.versions.get(key) || 0));
+    return Promise.resolve('OK');
+  }
+
+  public unwatch(): Promise<string> {
+    this.watched.clear();
+    return Promise.resolve('OK');
+  }
+
+  public multi(): IRedisTransaction {
+    let commands: Array<() => any> = [];
+    let transaction: IRedisTransaction = {
+      del: (...keys: string[]) => {
+        commands.push(() => this.deleteValues(keys));
+        return transaction;
+      },
+      exec: () => {
+        let conflict: boolean = Array.from(this.watched.keys()).some(key => (this.versions.get(key) || 0) !== this.watched.get(key));
+        this.watched.clear();
+        if (conflict) {
+          this.execConflicts++;
+          return Promise.resolve(null);
+        }
+        // Commands run without yielding, so no other command interleaves.
+        return Promise.resolve(commands.map(command => [ null, command() ]));
+      },
+      set: (key: string, value: string, ...args: Array<string | number>) => {
+        commands.push(() => this.setValue(key, value, args));
+        return transaction;
+      },
+    };
+    return transaction;
+  }
+
+  /** Returns the keys that have not expired. */
+  public keys(): string[] {
+    return Array.from(this.values.keys()).filter(key => this.getValue(key) !== null);
+  }
+
+  private getValue(key: string): string | null {
+    let entry = this.values.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      entry = undefined;
+    }
+    return entry ? entry.value : null;
+  }
+
+  private setValue(key: string, value: string, args: Array<string | number>): string | null {
+    let expiresAt: number | undefined;
+    let pxIndex = args.indexOf('PX');
+    if (pxIndex >= 0) {
+      expiresAt = Date.now() + Number(args[pxIndex + 1]);
+    }
+    if (args.indexOf('NX') >= 0 && this.getValue(key) !== null) {
+      return null;
+    }
+    this.values.set(key, { value: value, expiresAt: expiresAt });
+    this.touch(key);
+    return 'OK';
+  }
+
+  private deleteValues(keys: string[]): number {
+    let count = 0;
+    keys.forEach(key => {
+      if (this.getValue(key) !== null) {
+        count++;
+        this.touch(key);
+      }
+      this.values.delete(key);
+    });
+    return count;
+  }
+
+  private touch(key: string): void {
+    this.versions.set(key, (this.versions.get(key) || 0) + 1);
+  }
+}
@@ -1,10 +1,10 @@
 import base64url from 'base64url';
 import { assert } from "chai";
 import * as crypto from 'crypto';
-import * as ed25519 from 'ed25519';
 import * as fs from 'fs';
 import * as request from 'request';
 import * as requestPromise from 'request-promise-native';
+import * as nacl from 'tweetnacl';
 import * as url from 'url';
 import { BodyParser, ClientRequestInfo, TIFFlags } from '../passport-sqrl';
 
@@ -37,20 +37,53 @@ export class MockSQRLClient {
     return `https://${urlObj.hostname}${port}${path}`;
   }
 
+  /** Generates an Ed25519 keypair from a 32-byte seed. The private key is the 64-byte NaCl secret key. */
+  public static makeKeyPair(seed: Buffer): { publicKey: Buffer, privateKey: Buffer } {
+    let keyPair = nacl.sign.keyPair.fromSeed(seed);
+    return { publicKey: Buffer.from(keyPair.publicKey), privateKey: Buffer.from(keyPair.secretKey) };
+  }
+
+  /** Returns the 64-byte Ed25519 signature of a message. */
+  public static sign(message: Buffer, privateKey: Buffer): Buffer {
+    return Buffer.from(nacl.sign.detached(message, privateKey));
+  }
+
   // Options flags that get sent to the server on each request.
   public useSqrlIdentityOnly: boolean = false;
   public hardLockSqrlUse: boolean = false;
   public clientProvidedSession: boolean = false;
   public returnSessionUnlockKey: boolean = false;
+  public skipIpAddressTest: boolean = false;
 
   public canonicalizedSqrlUrl: string;
   public serverContactUrl: string;
   public originalSqrlUrl: string;
   public primaryIdentityPublicKey: Buffer;
   public previousIdentityPublicKeys: Buffer[] = [];
+
+  /**
+   * The index in previousIdentityPublicKeys of the previous identity presented last. Each
+   * 'query' presents the next one, so the client can find the one the server knows; other
+   * commands present the same one again.
+   */
   public lastQueryPrevIdTried: number = -1;
   public serverReturnedSessionUnlockKey: Buffer | undefined;
 
+  /**
+   * The base64url body of the last server response, if any, which is sent back in the
+   * server= field of the next request. The original SQRL URL is sent instead on the first request.
+   */
+  public lastServerResponseBody: string | undefined;
+
+  /** The sin= value from the last server response, if any, answered with ins= and pins= in the next request. */
+  public pendingSecretIndex: string | undefined;
+
+  /** When set, sent in the btn= field of the next request as the user's answer to a server ask= dialog. */
+  public askResponseSelection: number | undefined;
+
+  /** Forces omission of ins= and pins= even when the server requested a secret index. */
+  public omitIndexSecrets: boolean = false;
+
   // Malformed request injection flags
   public omitVersion: boolean = false;
   public omitCommand: boolean = false;
@@ -58,13 +91,23 @@ export class MockSQRLClient {
   public omitPrimarySignature: boolean = false;
   public omitClient: boolean = false;
   public omitServer: boolean = false;
+  public omitUnlockRequestSignature: boolean = false;
+
+  /**
+   * The Server Unlock Key and Server Verify Unlock Key sent to the server in 'ident' commands.
+   * The mock generates an independent Ed25519 key pair for the unlock request signing key
+   * and verify unlock key rather than deriving them as described at https://www.grc.com/sqrl/idlock.htm .
+   */
+  public serverUnlockPublicKey: Buffer;
+  public serverVerifyUnlockPublicKey: Buffer;
   
   private primaryIdentityPrivateKey: Buffer;
   private previousIdentityPrivateKeys: Buffer[] = [];
+  private unlockRequestSigningPrivateKey: Buffer;
   private certValidationList: Buffer[];
-  private sqrlVersion: number;
+  private sqrlVersion: number | string;
   
-  constructor(sqrlUrl: string, numPreviousIdentities: number = 0, sqrlVersion: number = 1) {
+  constructor(sqrlUrl: string, numPreviousIdentities: number = 0, sqrlVersion: number | string = 1) {
     this.originalSqrlUrl = sqrlUrl;
     this.sqrlVersion = sqrlVersion;
     this.canonicalizedSqrlUrl = MockSQRLClient.canonicalizeSqrlUrl(sqrlUrl);
@@ -72,18 +115,24 @@ export class MockSQRLClient {
 
     // Generate Ed25519 keypair for the primary identity.
     let seed: Buffer = crypto.randomBytes(32);
-    let keyPair = ed25519.MakeKeypair(seed);
+    let keyPair = MockSQRLClient.makeKeyPair(seed);
     this.primaryIdentityPublicKey = keyPair.publicKey;
     this.primaryIdentityPrivateKey = keyPair.privateKey;
 
     // Generate additional keys for the previous identities if any.
     for (let i = 0; i < numPreviousIdentities; i++) {
       seed = crypto.randomBytes(32);
-      keyPair = ed25519.MakeKeypair(seed);
+      keyPair = MockSQRLClient.makeKeyPair(seed);
       this.previousIdentityPublicKeys.push(keyPair.publicKey);
       this.previousIdentityPrivateKeys.push(keyPair.privateKey);
     }
 
+    // Generate the identity lock keys.
+    this.serverUnlockPublicKey = crypto.randomBytes(32);
+    keyPair = MockSQRLClient.makeKeyPair(crypto.randomBytes(32));
+    this.serverVerifyUnlockPublicKey = keyPair.publicKey;
+    this.unlockRequestSigningPrivateKey = keyPair.privateKey;
+
     // Set up TLS acceptance list for the cert chain on the test site.
     // http://www.benjiegillam.com/2012/06/node-dot-js-ssl-certificate-chain/
     let testSiteCertChain = fs.readFileSync(serverTlsCaChain);
@@ -139,13 +188,29 @@ export class MockSQRLClient {
     if (!this.omitIDKey) {
       clientLines.push('idk=' + base64url.encode(this.primaryIdentityPublicKey));
     }
-    // TODO: Add Server Unlock Key, and cases for Server Verify Unlock key
+    if (cmd === 'ident') {
+      clientLines.push('suk=' + base64url.encode(this.serverUnlockPublicKey));
+      clientLines.push('vuk=' + base64url.encode(this.serverVerifyUnlockPublicKey));
+    }
 
     if (!primaryIdentOnly && this.previousIdentityPublicKeys.length > 0) {
-      this.lastQueryPrevIdTried = (this.lastQueryPrevIdTried + 1) % this.previousIdentityPublicKeys.length;
+      if (cmd === 'query' || this.lastQueryPrevIdTried < 0) {
+        this.lastQueryPrevIdTried = (this.lastQueryPrevIdTried + 1) % this.previousIdentityPublicKeys.length;
+      }
       clientLines.push('pidk=' + base64url.encode(this.previousIdentityPublicKeys[this.lastQueryPrevIdTried]));
     }
 
+    if (this.pendingSecretIndex && !this.omitIndexSecrets) {
+      clientLines.push('ins=' + this.generateIndexSecret(this.pendingSecretIndex, this.primaryIdentityPrivateKey));
+      if (!primaryIdentOnly && this.previousIdentityPublicKeys.length > 0) {
+        clientLines.push('pins=' + this.generateIndexSecret(this.pendingSecretIndex, this.previousIdentityPrivateKeys[this.lastQueryPrevIdTried]));
+      }
+    }
+
+    if (this.askResponseSelection) {
+      clientLines.push(`btn=${this.askResponseSelection}`);
+    }
+
     let options: string[] = [];
     if (this.useSqrlIdentityOnly) {
       options.push('sqrlonly');
@@ -159,6 +224,9 @@ export class MockSQRLClient {
     if (this.returnSessionUnlockKey) {
       options.push('suk');
     }
+    if (this.skipIpAddressTest) {
+      options.push('noiptest');
+    }
     if (options.length) {
       let opt = options.join('~');
       clientLines.push(`opt=${opt}`);
@@ -166,9 +234,9 @@ export class MockSQRLClient {
 
     let clientPreBase64 = clientLines.join('\r\n') + '\r\n';  // SQRL spec requires trailing CRLF
     let client = base64url.encode(clientPreBase64);
-    let server = base64url.encode(this.originalSqrlUrl);  // TODO: Use previous reply info on 2nd and later round trips
+    let server = this.lastServerResponseBody || base64url.encode(this.originalSqrlUrl);
     let clientServer = Buffer.from(client + server, 'utf8');
-    let clientServerSignature = ed25519.Sign(clientServer, this.primaryIdentityPrivateKey);
+    let clientServerSignature = MockSQRLClient.sign(clientServer, this.primaryIdentityPrivateKey);
 
     let result = <RequestPostBody> {
       client: this.omitClient ? undefined : client,
@@ -177,19 +245,39 @@ export class MockSQRLClient {
     };
 
     if (!primaryIdentOnly && this.previousIdentityPublicKeys.length > 0) {
-      let prevSignature = ed25519.Sign(clientServer, this.previousIdentityPrivateKeys[this.lastQueryPrevIdTried]);
+      let prevSignature = MockSQRLClient.sign(clientServer, this.previousIdentityPrivateKeys[this.lastQueryPrevIdTried]);
       result.pids = base64url.encode(prevSignature);
     }
-    // TODO: Add urs field
+
+    // The identity lock protocol requires an unlock request signature to re-enable or remove
+    // an identity, or to replace a previous identity.
+    let presentsPreviousIdentity = !primaryIdentOnly && this.previousIdentityPublicKeys.length > 0;
+    if (!this.omitUnlockRequestSignature &&
+        (cmd === 'enable' || cmd === 'remove' || (cmd === 'ident' && presentsPreviousIdentity))) {
+      let unlockSignature = MockSQRLClient.sign(clientServer, this.unlockRequestSigningPrivateKey);
+      result.urs = base64url.encode(unlockSignature);
+    }
     return result;
   }
 
+  /**
+   * Derives a deterministic 256-bit secret index from a server sin= value and an identity key.
+   * Stands in for the EnHash-based derivation in the SQRL client specification.
+   */
+  public generateIndexSecret(secretIndex: string, identityPrivateKey: Buffer): string {
+    let hmac = crypto.createHmac('sha256', identityPrivateKey);
+    hmac.update(secretIndex, 'utf8');
+    return base64url.encode(hmac.digest());
+  }
+
   /**
    * Parses a response budy and updates local client state to
    * prepare the client for the next call.
    */
   public parseServerBody(body: string): ServerResponseInfo {
     let props = BodyParser.parseBase64CRLFSeparatedFields(body);
+    this.lastServerResponseBody = body;
+    this.pendingSecretIndex = props.sin;
 
     let vers: string[] = props.ver.split(',');
     let supportedVersions: number[] = [];
@@ -224,18 +312,21 @@ export class MockSQRLClient {
     let askButton2Label: string | undefined;
     let askButton2Url: string | undefined;
     if (props.ask) {
+      // Message, button labels, and URLs are each base64url encoded.
       let parts: string[] = props.ask.split('~');
-      askMessage = parts[0];
-      let button1Parts = parts[1].split(';');
-      askButton1Label = button1Parts[0];
-      if (button1Parts.length > 1) {
-        askButton1Url = button1Parts[1];
+      askMessage = base64url.decode(parts[0]);
+      if (parts.length > 1) {
+        let button1Parts = parts[1].split(';');
+        askButton1Label = base64url.decode(button1Parts[0]);
+        if (button1Parts.length > 1) {
+          askButton1Url = base64url.decode(button1Parts[1]);
+        }
       }
       if (parts.length > 2) {
         let button2Parts = parts[2].split(';');
-        askButton2Label = button2Parts[0];
+        askButton2Label = base64url.decode(button2Parts[0]);
         if (button2Parts.length > 1) {
-          askButton2Url = button2Parts[1];
+          askButton2Url = base64url.decode(button2Parts[1]);
         }
       }
     }
@@ -300,7 +391,8 @@ export class ServerResponseInfo {
 
   /**
    * The server unlock key originally registered with the server. Returned if the client requested
-   * the server unlock key to be returned in a query command (using its 'suk' option flag).
+   * the server unlock key to be returned in a query command (using its 'suk' option flag), or
+   * when the server reports a previous identity match or a disabled identity.
    */
   public serverUnlockKey?: string;
 
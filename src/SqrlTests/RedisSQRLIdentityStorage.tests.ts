@@ -0,0 +1,189 @@
+// Unit test suite for RedisSQRLIdentityStorage code, run against an in-memory Redis stand-in.
+
+import { assert } from "chai";
+import { AuthCompletionInfo, AuthenticateAsyncResult, ClientRequestInfo, IRedisTransaction, LoginStatusInfo, NutInfo, RedisIdentityStorageConfig, RedisSQRLIdentityStorage, SQRLApiRequest, SQRLEngine, SQRLStrategyConfig, SQRLUserRecord, TIFFlags, UrlAndNut } from '../passport-sqrl';
+import { MockLogger } from '../SqrlTests/MockLogger';
+import { MockRedisClient } from './MockRedisClient';
+import { MockSQRLClient } from './MockSQRLClient';
+
+describe('RedisSQRLIdentityStorage', () => {
+  describe('nutConsumedAtomically', () => {
+    it('should let exactly one of several concurrent requests use a nut', async () => {
+      let storage = new RedisSQRLIdentityStorage(new MockRedisClient());
+      await storage.nutIssuedToClientAsync(new UrlAndNut('sqrl://foo.com/login?nut=1234', '1234', '1234'));
+      let results: Array<NutInfo | null> = await Promise.all(
+        ['request1', 'request2', 'request3'].map(fingerprint => storage.consumeNutAsync('1234', fingerprint)));
+      let unusedResults = results.filter(nutInfo => !(<NutInfo> nutInfo).consumedByRequest);
+      assert.equal(unusedResults.length, 1);
+      results.forEach(nutInfo => {
+        assert.equal((<NutInfo> nutInfo).url, 'sqrl://foo.com/login?nut=1234');
+        assert.instanceOf((<NutInfo> nutInfo).issuedAt, Date);
+      });
+      assert.isNull(await storage.consumeNutAsync('5678', 'request1'));
+    });
+  });
+
+  describe('nutsAndLoginsExpire', () => {
+    it('should set a Redis expiry on nut and login keys', async () => {
+      let redis = new MockRedisClient();
+      let storage = new RedisSQRLIdentityStorage(redis, <RedisIdentityStorageConfig> {
+        keyPrefix: 'test:',
+        nutTimeToLiveSeconds: 0.05,
+      });
+      await storage.nutIssuedToClientAsync(new UrlAndNut('sqrl://foo.com/login?nut=1234', '1234', '1234'));
+      await storage.loginCompletedAsync('1234', { name: 'bob' });
+      await storage.identityDisabledAtLoginAsync('1234');
+      assert.sameMembers(redis.keys(), ['test:nut:1234', 'test:login:1234', 'test:login:1234:disabled']);
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+      assert.deepEqual(redis.keys(), []);
+      assert.isNull(await storage.getLoginStatusAsync('1234'));
+      assert.isNull(await storage.consumeCompletedLoginAsync('1234'));
+    });
+  });
+
+  describe('loadBalancedLogin', () => {
+    it('should complete a login whose API calls and polls reach different servers', async () => {
+      let redis = new MockRedisClient();
+      let config = <SQRLStrategyConfig> { localDomainName: 'domain.com' };
+      let storageA = new RedisSQRLIdentityStorage(redis);
+      let storageB = new RedisSQRLIdentityStorage(redis);
+      let engineA = new SQRLEngine(storageA, new MockLogger(), config);
+      let engineB = new SQRLEngine(storageB, new MockLogger(), config);
+
+      let urlAndNut: UrlAndNut = engineA.getSqrlUrl(<SQRLApiRequest> {});
+      await storageA.nutIssuedToClientAsync(urlAndNut);
+      let client = new MockSQRLClient(urlAndNut.url);
+      let queryBody = client.generatePostBody('query');
+      let result: AuthenticateAsyncResult = await engineA.handleRequestAsync(<SQRLApiRequest> { method: 'POST', params: queryBody });
+      assert.equal(client.parseServerBody(result.body || '').tifValues, 0);
+
+      result = await engineB.handleRequestAsync(<SQRLApiRequest> { method: 'POST', params: client.generatePostBody('ident') });
+      assert.equal(client.parseServerBody(result.body || '').tifValues, 0);
+      assert.isTrue((<LoginStatusInfo> await storageA.getLoginStatusAsync(urlAndNut.nutString)).loginCompleted);
+
+      // The login is handed to only one poll, wherever it arrives.
+      let logins: any[] = await Promise.all([
+        storageA.consumeCompletedLoginAsync(urlAndNut.nutString),
+        storageB.consumeCompletedLoginAsync(urlAndNut.nutString),
+      ]);
+      let users = logins.filter(user => user !== null);
+      assert.equal(users.length, 1);
+      assert.isNotNull(await storageA.getUserAsync((<SQRLUserRecord> users[0]).primaryIdentityPublicKey));
+
+      // A replay of the first request to the other server is refused.
+      result = await engineB.handleRequestAsync(<SQRLApiRequest> { method: 'POST', params: queryBody });
+      assert.equal(result.httpResponseCode, 400);
+    });
+  });
+
+  describe('rekeyMaintainsPreviousKeyIndex', () => {
+    it('should find the user by recent previous keys, and refuse all keys after removal', async () => {
+      let storage = new RedisSQRLIdentityStorage(new MockRedisClient());
+      let result: AuthCompletionInfo = await storage.identAsync(<ClientRequestInfo> {
+        primaryIdentityPublicKey: 'key0',
+        serverVerifyUnlockPublicKey: 'vuk0',
+      }, <NutInfo> {});
+      assert.equal(result.tifValues, 0);
+
+      for (let i = 1; i <= 5; i++) {
+        result = await storage.identAsync(<ClientRequestInfo> {
+          previousIdentityPublicKey: 'key' + (i - 1),
+          primaryIdentityPublicKey: 'key' + i,
+          serverVerifyUnlockPublicKey: 'vuk' + i,
+        }, <NutInfo> {});
+        assert.equal(result.tifValues, TIFFlags.PreviousIDMatch);
+      }
+
+      let user = <SQRLUserRecord> await storage.getUserAsync('key1');
+      assert.equal(user.primaryIdentityPublicKey, 'key5');
+      assert.deepEqual(user.previousIdentityPublicKeys, ['key4', 'key3', 'key2', 'key1']);
+      assert.isNull(await storage.getUserAsync('key0'));
+      assert.isNull(await storage.getServerVerifyUnlockKeyAsync('key4'));
+      assert.equal(await storage.getServerVerifyUnlockKeyAsync('key5'), 'vuk5');
+
+      // Rekeying back to a key still in the history moves it out of the history.
+      await storage.identAsync(<ClientRequestInfo> { previousIdentityPublicKey: 'key5', primaryIdentityPublicKey: 'key3' }, <NutInfo> {});
+      user = <SQRLUserRecord> await storage.getUserAsync('key5');
+      assert.equal(user.primaryIdentityPublicKey, 'key3');
+      assert.deepEqual(user.previousIdentityPublicKeys, ['key5', 'key4', 'key2', 'key1']);
+      assert.equal((await storage.queryAsync(<ClientRequestInfo> { primaryIdentityPublicKey: 'key3' }, <NutInfo> {})).tifValues, TIFFlags.CurrentIDMatch);
+
+      let clientRequestInfo = <ClientRequestInfo> { primaryIdentityPublicKey: 'key3' };
+      // tslint:disable-next-line:no-bitwise
+      assert.equal((await storage.disableAsync(clientRequestInfo, <NutInfo> {})).tifValues, TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+      // tslint:disable-next-line:no-bitwise
+      assert.equal((await storage.identAsync(clientRequestInfo, <NutInfo> {})).tifValues, TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled | TIFFlags.CommandFailed);
+      assert.equal((await storage.removeAsync(clientRequestInfo, <NutInfo> {})).tifValues, 0);
+      assert.isNull(await storage.getUserAsync('key3'));
+      assert.isNull(await storage.getUserAsync('key5'));
+      assert.equal((await storage.identAsync(<ClientRequestInfo> { primaryIdentityPublicKey: 'key2' }, <NutInfo> {})).tifValues, TIFFlags.CommandFailed);
+    });
+  });
+
+  describe('concurrentRekeysApplyOnce', () => {
+    it('should let one of two concurrent rekeys of a user win, retrying the other against the result', async () => {
+      let connections: MockRedisClient[] = [ new MockRedisClient() ];
+      connections.push(connections[0].duplicate());
+      let storageA = new RedisSQRLIdentityStorage(connections[0]);
+      let storageB = new RedisSQRLIdentityStorage(connections[1]);
+      await storageA.identAsync(<ClientRequestInfo> { primaryIdentityPublicKey: 'key0' }, <NutInfo> {});
+
+      let results: AuthCompletionInfo[] = await Promise.all([
+        storageA.identAsync(<ClientRequestInfo> { previousIdentityPublicKey: 'key0', primaryIdentityPublicKey: 'keyA' }, <NutInfo> {}),
+        storageB.identAsync(<ClientRequestInfo> { previousIdentityPublicKey: 'key0', primaryIdentityPublicKey: 'keyB' }, <NutInfo> {}),
+      ]);
+      assert.equal(connections[0].execConflicts + connections[1].execConflicts, 1, 'The rekeys should have raced');
+      assert.deepEqual(results.map(result => result.tifValues).sort(), [ 0, TIFFlags.PreviousIDMatch ]);
+
+      // The retried ident no longer finds key0, so creates a separate user.
+      let winner: string = results[0].tifValues === TIFFlags.PreviousIDMatch ? 'keyA' : 'keyB';
+      let loser: string = winner === 'keyA' ? 'keyB' : 'keyA';
+      assert.deepEqual((<SQRLUserRecord> await storageA.getUserAsync(winner)).previousIdentityPublicKeys, [ 'key0' ]);
+      assert.deepEqual((<SQRLUserRecord> await storageA.getUserAsync(loser)).previousIdentityPublicKeys, []);
+      assert.equal((<SQRLUserRecord> await storageB.getUserAsync('key0')).primaryIdentityPublicKey, winner);
+    });
+  });
+
+  describe('userChangeRacingRekeyRetries', () => {
+    let testCases = [ 'disable', 'remove' ];
+    testCases.forEach(command => {
+      it(`should retry a ${command} whose user is rekeyed by another server before it applies`, async () => {
+        let connections: MockRedisClient[] = [ new MockRedisClient() ];
+        connections.push(connections[0].duplicate());
+        let storageA = new RedisSQRLIdentityStorage(connections[0]);
+        let storageB = new RedisSQRLIdentityStorage(connections[1]);
+        await storageA.identAsync(<ClientRequestInfo> { primaryIdentityPublicKey: 'key0' }, <NutInfo> {});
+
+        // Rekey the user on the other server between the command's read of the user and its write.
+        let rekeyResult: AuthCompletionInfo | undefined;
+        let multi = connections[0].multi.bind(connections[0]);
+        connections[0].multi = (): IRedisTransaction => {
+          let transaction: IRedisTransaction = multi();
+          let exec = transaction.exec;
+          transaction.exec = async () => {
+            if (!rekeyResult) {
+              rekeyResult = await storageB.identAsync(
+                  <ClientRequestInfo> { previousIdentityPublicKey: 'key0', primaryIdentityPublicKey: 'key1' }, <NutInfo> {});
+            }
+            return exec();
+          };
+          return transaction;
+        };
+
+        let clientRequestInfo = <ClientRequestInfo> { primaryIdentityPublicKey: 'key0' };
+        let result: AuthCompletionInfo = command === 'disable' ?
+            await storageA.disableAsync(clientRequestInfo, <NutInfo> {}) :
+            await storageA.removeAsync(clientRequestInfo, <NutInfo> {});
+        assert.equal((<AuthCompletionInfo> rekeyResult).tifValues, TIFFlags.PreviousIDMatch);
+        assert.equal(connections[0].execConflicts, 1, 'The stale write should have been refused');
+        assert.equal(result.tifValues, TIFFlags.CommandFailed, 'The retry should no longer find the old identity');
+
+        let user = <SQRLUserRecord> await storageA.getUserAsync('key0');
+        assert.equal(user.primaryIdentityPublicKey, 'key1');
+        assert.isFalse(!!user.disabled);
+        assert.notInclude(connections[0].keys(), 'sqrl:user:key0');
+      });
+    });
+  });
+});
@@ -1,12 +1,17 @@
 // Unit test suite for SQRLExpress code.
 
+import base64url from 'base64url';
 import { assert } from "chai";
+import * as crypto from 'crypto';
 import * as express from 'express';
-import { AuthCompletionInfo, AuthenticateAsyncResult, ClientInputError, ClientRequestInfo, ILogger, ISQRLIdentityStorage, NutInfo, SQRLExpress, SQRLStrategyConfig, TIFFlags, UrlAndNut } from '../passport-sqrl';
+import * as http from 'http';
+import * as querystring from 'querystring';
+import * as stream from 'stream';
+import { AskMessage, AuthCompletionInfo, AuthenticateAsyncResult, BadIDAssociationError, BodyParser, ClientInputError, ClientRequestInfo, IFastifyReply, IFastifyRequest, IKoaContext, ILogger, ISQRLIdentityStorage, LoginEventBus, LoginStatusInfo, MemoryCpsTokenStore, MemoryLoginEventPubSub, MemoryRateLimitStore, MemoryUsedNutStore, NutInfo, NutPollStatus, SQRLApiRequest, SQRLEngine, SQRLExpress, SQRLFastify, SQRLKoa, SQRLNodeHttp, SQRLProtocolV1Handler, SQRLStores, SQRLStrategyConfig, StaleNutError, TIFFlags, UrlAndNut } from '../passport-sqrl';
 import { MockLogger } from '../SqrlTests/MockLogger';
-import { MockSQRLClient, ServerResponseInfo } from './MockSqrlClient';
+import { MockSQRLClient, ServerResponseInfo } from './MockSQRLClient';
 
-type AuthCallback = (clientRequestInfo: ClientRequestInfo) => Promise<AuthCompletionInfo>;
+type AuthCallback = (clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo) => Promise<AuthCompletionInfo>;
 
 describe('SQRLExpress', () => {
   describe('getSqrlUrlNoNutGenerator', () => {
@@ -77,12 +82,7 @@ describe('SQRLExpress', () => {
           user: { name: "bob" }
         });
       };
-      storage.onGetNutInfo = (nut: string): NutInfo | null => {
-        if (nut === '1234') {
-          return <NutInfo> { nut: '1234' };
-        }
-        return null;
-      };
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
 
       // Initial query call.
       let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
@@ -93,7 +93,7 @@ describe('SQRLExpress', () => {
       assert.equal(authResult.httpResponseCode, 200);
       assert.isUndefined(authResult.user, 'A query should not actually return the user');
       assert.equal(storage.nutIssuedToClientCalls, 1);
-      assert.equal(storage.getNutInfoCalls, 1);
+      assert.equal(storage.consumeNutCalls, 1);
       assert.equal(storage.queryCalls, 1);
       assert.equal(storage.identCalls, 0);
       assert.equal(storage.disableCalls, 0);
@@ -102,6 +102,7 @@ describe('SQRLExpress', () => {
       assert.isDefined(authResult.body);
       let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
       assert.equal(res.tifValues, 0, 'Expected no match returned in mock');
+      assert.deepEqual(storage.completedLogins, {}, 'A query should not complete the login');
 
       // Follow-up ident call.
       authResult = await sqrl.authenticateAsync(<express.Request> {
@@ -112,8 +113,8 @@ describe('SQRLExpress', () => {
       assert(authResult.user, 'User record should be present');
       assert.equal('bob', authResult.user.name);
       assert.equal(storage.nutIssuedToClientCalls, 2);
-      assert.equal(storage.getNutInfoCalls, 2);
-      assert.equal(storage.queryCalls, 1);
+      assert.equal(storage.consumeNutCalls, 2);
+      assert.equal(storage.queryCalls, 1, 'ident should use the identity state from the query response');
       assert.equal(storage.identCalls, 1);
       assert.equal(storage.disableCalls, 0);
       assert.equal(storage.enableCalls, 0);
@@ -121,6 +122,7 @@ describe('SQRLExpress', () => {
       assert.isDefined(authResult.body);
       res = client.parseServerBody(authResult.body || '');
       assert.equal(res.tifValues, TIFFlags.CurrentIDMatch);
+      assert.equal(storage.completedLogins['1234'].name, 'bob', 'Login should be completed against the QR code nut');
     });
   });
 
@@ -192,7 +194,7 @@ describe('SQRLExpress', () => {
   describe('callMissingCommandFails', () => {
     it('should throw if the client request does not have cmd=', async () => {
       let storage = new MockSQRLIdentityStorage();
-      storage.onGetNutInfo = (nut: string): NutInfo | null => <NutInfo> { nut: '1234' };
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
 
       let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {});
       let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
@@ -214,7 +216,7 @@ describe('SQRLExpress', () => {
   describe('callMissingIDKeyFails', () => {
     it('should throw if the client request does not have idk=', async () => {
       let storage = new MockSQRLIdentityStorage();
-      // storage.onGetNutInfo = (nut: string): NutInfo | null => <NutInfo> { nut: '1234' };
+      // storage.onConsumeNut = (nut: string): NutInfo | null => <NutInfo> { nut: '1234' };
 
       let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {});
       let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
@@ -292,101 +294,1703 @@ describe('SQRLExpress', () => {
       }
     });
   });
-});
 
-class MockSQRLIdentityStorage implements ISQRLIdentityStorage {
-  public queryCalls = 0;
-  public identCalls = 0;
-  public disableCalls = 0;
-  public enableCalls = 0;
-  public removeCalls = 0;
-  public nutIssuedToClientCalls = 0;
-  public getNutInfoCalls = 0;
-  
-  public onQuery?: AuthCallback;
-  public onIdent?: AuthCallback;
-  public onDisable?: AuthCallback;
-  public onEnable?: AuthCallback;
-  public onRemove?: AuthCallback;
-  public onNutIssuedToClient?: (urlAndNut: UrlAndNut, originalLoginNut?: string) => void;
-  public onGetNutInfo?: (nut: string) => NutInfo | null;
+  describe('queryTamperedServerFieldFails', () => {
+    it('should return ClientFailure if the server= value differs from the issued QR-code URL', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
 
-  private issuedNuts: any = {};
+      // Same nut, different URL.
+      let client = new MockSQRLClient('sqrl://evil.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      assert.equal(authResult.httpResponseCode, 200);
+      assert.equal(storage.queryCalls, 0, 'Storage should not be called for a mismatched server= value');
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+    });
+  });
 
-  public nutIssuedToClientAsync(urlAndNut: UrlAndNut, originalLoginNut?: string): Promise<void> {
-    this.nutIssuedToClientCalls++;
-    if (this.onNutIssuedToClient) {
-      this.onNutIssuedToClient(urlAndNut, originalLoginNut);
-      return Promise.resolve();
-    }
-    this.issuedNuts[urlAndNut.nutString] = <NutInfo> {
-      nut: urlAndNut.nutString,
-      originalLoginNut: originalLoginNut
-    };
-    return Promise.resolve();
-  }
+  describe('identReplayedServerFieldFails', () => {
+    it('should return ClientFailure if the server= value differs from the issued response body', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        clientLoginSuccessUrl: '/',
+      });
 
-  public getNutInfoAsync(nut: string): Promise<NutInfo | null> {
-    this.getNutInfoCalls++;
-    if (this.onGetNutInfo) {
-      return Promise.resolve(this.onGetNutInfo(nut));
-    }
-    return Promise.resolve(this.issuedNuts[nut]);
-  }
-  
-  public queryAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
-    this.queryCalls++;
-    if (this.onQuery) {
-      return this.onQuery(clientRequestInfo);
-    }
-    return Promise.resolve(<AuthCompletionInfo> {});
-  }
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      client.clientProvidedSession = true;
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, 0);
 
-  public identAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
-    this.identCalls++;
-    if (this.onIdent) {
-      return this.onIdent(clientRequestInfo);
-    }
-    return Promise.resolve(<AuthCompletionInfo> {});
-  }
+      // Keep the issued nut but alter the rest of the response body.
+      client.lastServerResponseBody = base64url.encode(`ver=1\r\nnut=${res.nextNut}\r\ntif=1\r\nqry=/evil\r\n`);
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('ident')
+      });
+      assert.equal(storage.identCalls, 0, 'Storage should not be called for a mismatched server= value');
+      res = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+      assert.isUndefined(res.successfulAuthenticationRedirectUrl, 'No cps redirect expected on failure');
+    });
+  });
 
-  public disableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
-    this.disableCalls++;
-    if (this.onDisable) {
-      return this.onDisable(clientRequestInfo);
-    }
-    return Promise.resolve(<AuthCompletionInfo> {});
-  }
+  describe('querySecretIndexReturnedOnIdent', () => {
+    it('should send sin= and pass the client ins= and pins= values to storage on the next call', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      storage.onQuery = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+        return Promise.resolve(<AuthCompletionInfo> {
+          tifValues: 0,
+          secretIndex: 'per-user-secret'
+        });
+      };
+      let identRequestInfo: ClientRequestInfo | undefined;
+      storage.onIdent = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+        identRequestInfo = clientRequestInfo;
+        return Promise.resolve(<AuthCompletionInfo> {
+          tifValues: TIFFlags.CurrentIDMatch,
+          user: { name: "bob" }
+        });
+      };
 
-  public enableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
-    this.enableCalls++;
-    if (this.onEnable) {
-      return this.onEnable(clientRequestInfo);
-    }
-    return Promise.resolve(<AuthCompletionInfo> {});
-  }
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234', /*numPreviousIdentities:*/1);
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      assert.equal(res.secretIndex, 'per-user-secret');
 
-  public removeAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
-    this.removeCalls++;
-    if (this.onRemove) {
-      return this.onRemove(clientRequestInfo);
-    }
-    return Promise.resolve(<AuthCompletionInfo> {});
-  }
-}
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('ident')
+      });
+      res = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, TIFFlags.CurrentIDMatch);
+      assert.isUndefined(res.secretIndex, 'Secret index is only sent when requested by storage');
+      assert.isDefined(identRequestInfo);
+      let info = <ClientRequestInfo> identRequestInfo;
+      assert.equal(info.secretIndex, 'per-user-secret');
+      assert.isDefined(info.indexSecret);
+      assert.isDefined(info.previousIndexSecret);
+      assert.notEqual(info.indexSecret, info.previousIndexSecret);
+    });
+  });
 
-/** Exposes base class protected members as public for unit testing. */
-class MockSQRLExpress extends SQRLExpress {
-  public storage: MockSQRLIdentityStorage;
+  describe('identMissingIndexSecretFails', () => {
+    it('should return ClientFailure if the client does not answer a sin= request with ins=', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      storage.onQuery = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: 0, secretIndex: 'abc' });
+      };
 
-  constructor(mockStorage: MockSQRLIdentityStorage, log: ILogger, config: SQRLStrategyConfig) {
-    super(mockStorage, log, config);
-    this.storage = mockStorage;
-  }
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      client.parseServerBody(authResult.body || '');
 
-  public async authenticateAsync(req: express.Request): Promise<AuthenticateAsyncResult> {
-    return super.authenticateAsync(req);
-  }
+      client.omitIndexSecrets = true;
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('ident')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+      assert.equal(storage.identCalls, 0);
+    });
+  });
+
+  describe('enableRemoveWithUnlockRequestSignatureSucceeds', () => {
+    it('should verify urs= against the stored vuk and pass the result to storage', async () => {
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let idk = base64url.encode(client.primaryIdentityPublicKey);
+      for (let cmd of ['enable', 'remove']) {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        storage.verifyUnlockKeys[idk] = base64url.encode(client.serverVerifyUnlockPublicKey);
+        // tslint:disable-next-line:no-bitwise
+        storage.onQuery = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled });
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+        });
+        let requestInfo: ClientRequestInfo | undefined;
+        storage.onEnable = storage.onRemove = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+          requestInfo = clientRequestInfo;
+          return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch });
+        };
+
+        client.lastServerResponseBody = undefined;
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody(cmd)
+        });
+        let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+        assert.equal(res.tifValues, TIFFlags.CurrentIDMatch, cmd);
+        assert.equal(storage.enableCalls + storage.removeCalls, 1, cmd);
+        assert.isTrue((<ClientRequestInfo> requestInfo).unlockRequestSignatureVerified, cmd);
+      }
+    });
+  });
+
+  describe('enableRemoveWithoutValidUnlockRequestSignatureFails', () => {
+    it('should return ClientFailure for enable or remove with a missing or unverifiable urs=', async () => {
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let otherClient = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let idk = base64url.encode(client.primaryIdentityPublicKey);
+      let cases: Array<{ cmd: string, omitUrs: boolean, vuk?: Buffer }> = [
+        { cmd: 'enable', omitUrs: true, vuk: client.serverVerifyUnlockPublicKey },
+        { cmd: 'remove', omitUrs: true, vuk: client.serverVerifyUnlockPublicKey },
+        { cmd: 'enable', omitUrs: false, vuk: otherClient.serverVerifyUnlockPublicKey },
+        { cmd: 'remove', omitUrs: false },  // Unknown identity
+      ];
+      for (let testCase of cases) {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        if (testCase.vuk) {
+          storage.verifyUnlockKeys[idk] = base64url.encode(testCase.vuk);
+        }
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+        });
+
+        client.lastServerResponseBody = undefined;
+        client.omitUnlockRequestSignature = testCase.omitUrs;
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody(testCase.cmd)
+        });
+        let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+        // tslint:disable-next-line:no-bitwise
+        assert.equal(res.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure, JSON.stringify(testCase));
+        assert.equal(storage.enableCalls + storage.removeCalls, 0, JSON.stringify(testCase));
+      }
+    });
+  });
+
+  describe('sqrlOnlyAndHardLockIgnoredInQuery', () => {
+    it('should pass the sqrlonly and hardlock options to storage only for non-query commands', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      let requestInfos: { [cmd: string]: ClientRequestInfo } = {};
+      storage.onQuery = storage.onIdent = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+        requestInfos[<string> clientRequestInfo.sqrlCommand] = clientRequestInfo;
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: 0 });
+      };
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      client.useSqrlIdentityOnly = true;
+      client.hardLockSqrlUse = true;
+      for (let cmd of ['query', 'ident']) {
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody(cmd)
+        });
+        client.parseServerBody(authResult.body || '');
+      }
+      assert.isFalse(requestInfos.query.useSqrlIdentityOnly);
+      assert.isFalse(requestInfos.query.hardLockSqrlUse);
+      assert.isTrue(requestInfos.ident.useSqrlIdentityOnly);
+      assert.isTrue(requestInfos.ident.hardLockSqrlUse);
+    });
+  });
+
+  describe('identityLifecycleEnforcedBeforeStorage', () => {
+    it('should refuse invalid lifecycle transitions without calling storage and report the new state', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      storage.verifyUnlockKeys[base64url.encode(client.primaryIdentityPublicKey)] = base64url.encode(client.serverVerifyUnlockPublicKey);
+      let stateTif: TIFFlags = 0;
+      storage.onQuery = () => Promise.resolve(<AuthCompletionInfo> { tifValues: stateTif });
+      // Storage that reports the state before the command, as the library corrects it.
+      storage.onDisable = storage.onEnable = () => Promise.resolve(<AuthCompletionInfo> { tifValues: stateTif });
+      let sendAsync = async (cmd: string): Promise<TIFFlags> => {
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody(cmd)
+        });
+        return client.parseServerBody(authResult.body || '').tifValues;
+      };
+
+      // tslint:disable:no-bitwise
+      assert.equal(await sendAsync('disable'), TIFFlags.CommandFailed, 'Unknown identity');
+      assert.equal(await sendAsync('enable'), TIFFlags.CommandFailed, 'Unknown identity');
+      assert.equal(await sendAsync('remove'), TIFFlags.CommandFailed, 'Unknown identity');
+
+      stateTif = TIFFlags.CurrentIDMatch;
+      assert.equal(await sendAsync('remove'), TIFFlags.CurrentIDMatch | TIFFlags.CommandFailed, 'Remove while enabled');
+      assert.equal(await sendAsync('enable'), TIFFlags.CurrentIDMatch, 'Enable while enabled');
+      assert.equal(storage.disableCalls + storage.enableCalls + storage.removeCalls, 0);
+      assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+      assert.equal(storage.disableCalls, 1);
+
+      stateTif = TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled;
+      assert.equal(await sendAsync('ident'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled | TIFFlags.CommandFailed);
+      assert.equal(storage.identCalls, 0);
+      assert.deepEqual(storage.completedLogins, {});
+      assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled, 'Disable while disabled');
+      assert.equal(storage.disableCalls, 1);
+      assert.equal(await sendAsync('enable'), TIFFlags.CurrentIDMatch);
+      assert.equal(storage.enableCalls, 1);
+      assert.equal(await sendAsync('remove'), 0);
+      assert.equal(storage.removeCalls, 1);
+      // tslint:enable:no-bitwise
+    });
+  });
+
+  describe('identityLifecycleUsesIssuedState', () => {
+    it('should take the identity state from the previous response, confirming it with storage before refusing', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      storage.verifyUnlockKeys[base64url.encode(client.primaryIdentityPublicKey)] = base64url.encode(client.serverVerifyUnlockPublicKey);
+      let stateTif: TIFFlags = TIFFlags.CurrentIDMatch;
+      storage.onQuery = () => Promise.resolve(<AuthCompletionInfo> { tifValues: stateTif });
+      storage.onDisable = storage.onIdent = () => Promise.resolve(<AuthCompletionInfo> { tifValues: stateTif });
+      let sendAsync = async (cmd: string): Promise<TIFFlags> => {
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody(cmd)
+        });
+        return client.parseServerBody(authResult.body || '').tifValues;
+      };
+
+      // tslint:disable:no-bitwise
+      assert.equal(await sendAsync('query'), TIFFlags.CurrentIDMatch);
+      assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+      assert.equal(storage.queryCalls, 1, 'disable should use the state from the query response');
+      assert.equal(storage.disableCalls, 1);
+      stateTif = TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled;
+      assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled, 'Disable while disabled');
+      assert.equal(storage.queryCalls, 2, 'Settling the repeated disable should confirm the state');
+      assert.equal(storage.disableCalls, 1);
+
+      // The last response reports a disabled identity, but it was since enabled elsewhere.
+      stateTif = TIFFlags.CurrentIDMatch;
+      assert.equal(await sendAsync('ident'), TIFFlags.CurrentIDMatch);
+      assert.equal(storage.queryCalls, 3);
+      assert.equal(storage.identCalls, 1);
+      // tslint:enable:no-bitwise
+    });
+  });
+
+  describe('identRekeyRequiresUnlockRequestSignature', () => {
+    it('should refuse an ident replacing a known previous identity without a valid urs=', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234', /*numPreviousIdentities:*/1);
+      let pidk = base64url.encode(client.previousIdentityPublicKeys[0]);
+      storage.verifyUnlockKeys[pidk] = base64url.encode(client.serverVerifyUnlockPublicKey);
+
+      client.omitUnlockRequestSignature = true;
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('ident')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+      assert.equal(storage.identCalls, 0);
+
+      client.omitUnlockRequestSignature = false;
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('ident')
+      });
+      res = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, 0);
+      assert.equal(storage.identCalls, 1);
+    });
+  });
+
+  describe('queryAskDialogAndButtonSelection', () => {
+    it('should encode an ask= dialog and surface the btn= selection on the next request', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      let ask = <AskMessage> {
+        message: 'Link this identity to account~bob; yes?',
+        button1Label: 'Yes; link',
+        button1Url: 'https://domain.com/link?a=1;b=2',
+        button2Label: 'No~thanks',
+      };
+      storage.onQuery = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: 0, ask: ask });
+      };
+      let identRequestInfo: ClientRequestInfo | undefined;
+      storage.onIdent = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+        identRequestInfo = clientRequestInfo;
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch });
+      };
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      assert.equal(res.askMessage, ask.message);
+      assert.equal(res.askButton1Label, ask.button1Label);
+      assert.equal(res.askButton1Url, ask.button1Url);
+      assert.equal(res.askButton2Label, ask.button2Label);
+      assert.isUndefined(res.askButton2Url);
+
+      client.askResponseSelection = 2;
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('ident')
+      });
+      res = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, TIFFlags.CurrentIDMatch);
+      let info = <ClientRequestInfo> identRequestInfo;
+      assert.equal(info.serverAskResponseSelection, 2);
+      assert.deepEqual(info.serverAsk, ask);
+    });
+  });
+
+  describe('identUnsolicitedButtonSelectionFails', () => {
+    it('should return ClientFailure for a btn= value when no ask= dialog was sent', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      client.askResponseSelection = 1;
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+      assert.equal(storage.queryCalls, 0);
+    });
+  });
+
+  describe('encryptedNutQueryIdentSucceedsWithoutNutStorage', () => {
+    it('should decode nut lineage from encrypted nuts without calling nut storage', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        urlPath: '/sqrl',
+        encryptedNutKey: crypto.randomBytes(32),
+      });
+      let identNutInfo: NutInfo | undefined;
+      storage.onIdent = (clientRequestInfo: ClientRequestInfo, identNut: NutInfo): Promise<AuthCompletionInfo> => {
+        identNutInfo = identNut;
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+      };
+
+      let urlAndNut: UrlAndNut = sqrl.getSqrlUrl(<express.Request> { ip: '10.1.2.3' });
+      let client = new MockSQRLClient(urlAndNut.url);
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        ip: '10.1.2.3',
+        body: client.generatePostBody('query')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, TIFFlags.IPAddressesMatch);
+
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        ip: '10.1.2.3',
+        body: client.generatePostBody('ident')
+      });
+      res = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CurrentIDMatch | TIFFlags.IPAddressesMatch);
+      assert.equal(authResult.user.name, 'bob');
+      assert.equal((<NutInfo> identNutInfo).requesterIp, '10.1.2.3');
+      assert.equal((<NutInfo> identNutInfo).originalLoginNut, urlAndNut.nutString);
+      assert.equal(storage.completedLogins[urlAndNut.nutString].name, 'bob');
+      assert.equal(storage.consumeNutCalls, 0);
+      assert.equal(storage.nutIssuedToClientCalls, 0);
+    });
+  });
+
+  describe('encryptedNutTamperedServerFieldFails', () => {
+    it('should return ClientFailure if the server= body differs from the digest in an encrypted nut', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        urlPath: '/sqrl',
+        encryptedNutKey: crypto.randomBytes(32),
+      });
+
+      let client = new MockSQRLClient(sqrl.getSqrlUrl(<express.Request> { }).url);
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      client.lastServerResponseBody = base64url.encode(base64url.decode(client.lastServerResponseBody || '').replace('tif=0', 'tif=1'));
+
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('ident')
+      });
+      res = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+      assert.equal(storage.identCalls, 0);
+    });
+  });
+
+  describe('encryptedNutFromOtherKeyFails', () => {
+    it('should throw if an encrypted nut does not authenticate under the configured key', async () => {
+      let sqrl = new MockSQRLExpress(new MockSQRLIdentityStorage(), new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        encryptedNutKey: crypto.randomBytes(32),
+      });
+      let otherSqrl = new MockSQRLExpress(new MockSQRLIdentityStorage(), new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        encryptedNutKey: crypto.randomBytes(32),
+      });
+
+      let client = new MockSQRLClient(otherSqrl.getSqrlUrl(<express.Request> { }).url);
+      try {
+        await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody('query')
+        });
+        assert.fail('Expected exception not thrown');
+      } catch (e) {
+        let err = <ClientInputError> e;
+        assert.isTrue(err.message.indexOf('unknown nut value') >= 0, err.message);
+        assert.equal(400, err.httpStatusCode);
+      }
+    });
+  });
+
+  describe('encryptedNutReplayFails', () => {
+    it('should reject a replayed encrypted nut request, allowing only an exact ident retry', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.onIdent = (): Promise<AuthCompletionInfo> => {
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+      };
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        encryptedNutKey: crypto.randomBytes(32),
+        usedNutStore: new MemoryUsedNutStore(),
+      });
+
+      let client = new MockSQRLClient(sqrl.getSqrlUrl(<express.Request> {}).url);
+      let queryBody = client.generatePostBody('query');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> { method: "POST", body: queryBody });
+      client.parseServerBody(authResult.body || '');
+      try {
+        await sqrl.authenticateAsync(<express.Request> { method: "POST", body: queryBody });
+        assert.fail('Expected exception not thrown');
+      } catch (e) {
+        let err = <ClientInputError> e;
+        assert.isTrue(err.message.indexOf('already been used') >= 0, err.message);
+        assert.equal(400, err.httpStatusCode);
+      }
+      assert.equal(storage.queryCalls, 1);
+
+      let identBody = client.generatePostBody('ident');
+      await sqrl.authenticateAsync(<express.Request> { method: "POST", body: identBody });
+      authResult = await sqrl.authenticateAsync(<express.Request> { method: "POST", body: identBody });
+      assert.equal(authResult.user.name, 'bob', 'An exact ident retry should succeed');
+      assert.equal(storage.identCalls, 2);
+    });
+  });
+
+  describe('queryDisabledIdentityRecordedForLogin', () => {
+    it('should record the disabled identity against the original login nut', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      // tslint:disable-next-line:no-bitwise
+      storage.onQuery = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled });
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      assert.equal(authResult.httpResponseCode, 200);
+      assert.deepEqual(storage.disabledLogins, ['1234']);
+      assert.deepEqual(storage.completedLogins, {});
+    });
+  });
+
+  describe('cpsIdentReturnsOneTimeLoginUrl', () => {
+    let testCases = [
+      { successUrl: '/cpsLogin', separator: '?' },
+      { successUrl: '/cpsLogin?from=sqrl', separator: '&' },
+    ];
+    testCases.forEach(testCase => {
+      it(`should add a redeemable token to ${testCase.successUrl}`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        storage.onIdent = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        let tokenStore = new MemoryCpsTokenStore();
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          clientLoginSuccessUrl: testCase.successUrl,
+          cpsTokenStore: tokenStore,
+          localDomainName: 'domain.com',
+        });
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        client.clientProvidedSession = true;
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody('query')
+        });
+        let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+        assert.isUndefined(res.successfulAuthenticationRedirectUrl, 'No login URL expected for a query');
+
+        authResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody('ident')
+        });
+        res = client.parseServerBody(authResult.body || '');
+        let url: string = res.successfulAuthenticationRedirectUrl || '';
+        let prefix: string = testCase.successUrl + testCase.separator + 'cpsToken=';
+        assert.isTrue(url.startsWith(prefix), `Unexpected url= value ${url}`);
+        let token: string = url.substring(prefix.length);
+        assert.equal((await tokenStore.consumeAsync(token)).name, 'bob');
+        assert.isNull(await tokenStore.consumeAsync(token), 'Tokens should be single use');
+      });
+    });
+  });
+
+  describe('loginEventsPublished', () => {
+    it('should publish completed and disabled logins to the configured event bus', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.onQuery = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.IDDisabled });
+      storage.onIdent = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let pubSub = new MemoryLoginEventPubSub();
+      let messages: any[] = [];
+      pubSub.subscribe(message => messages.push(JSON.parse(message)));
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        loginEventBus: new LoginEventBus(pubSub),
+      });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      client.parseServerBody(authResult.body || '');
+      storage.onQuery = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch });  // Re-enabled
+      await sqrl.authenticateAsync(<express.Request> { method: "POST", body: client.generatePostBody('ident') });
+      assert.deepEqual(messages, [
+        { nut: '1234', status: NutPollStatus.Disabled },
+        { nut: '1234', status: NutPollStatus.Completed },
+      ]);
+    });
+  });
+
+  describe('identMatchingRequesterIpReturnsIPAddressesMatch', () => {
+    it('should return IPAddressesMatch on each response when the client IP matches the login page IP', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.onIdent = (): Promise<AuthCompletionInfo> => {
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+      };
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+      let urlAndNut: UrlAndNut = sqrl.getSqrlUrl(<express.Request> { ip: '::ffff:10.1.2.3' });
+      assert.equal(urlAndNut.requesterIp, '10.1.2.3');
+      storage.addQrCodeNut(urlAndNut.url, urlAndNut.nutString, urlAndNut.requesterIp);
+
+      let client = new MockSQRLClient(urlAndNut.url);
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        ip: '10.1.2.3',
+        body: client.generatePostBody('query')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, TIFFlags.IPAddressesMatch);
+
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        ip: '10.1.2.3',
+        body: client.generatePostBody('ident')
+      });
+      res = client.parseServerBody(authResult.body || '');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(res.tifValues, TIFFlags.CurrentIDMatch | TIFFlags.IPAddressesMatch);
+      assert.equal(authResult.user.name, 'bob');
+    });
+  });
+
+  describe('queryMismatchedOrSkippedRequesterIpOmitsIPAddressesMatch', () => {
+    let testCases = [
+      { name: 'different IP', clientIp: '10.9.9.9', noIpTest: false },
+      { name: 'noiptest option', clientIp: '10.1.2.3', noIpTest: true },
+    ];
+    testCases.forEach(testCase => {
+      it(`should not return IPAddressesMatch for ${testCase.name}`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234', '10.1.2.3');
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+        });
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        client.skipIpAddressTest = testCase.noIpTest;
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          ip: testCase.clientIp,
+          body: client.generatePostBody('query')
+        });
+        let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+        assert.equal(res.tifValues, 0);
+        assert.equal(storage.queryCalls, 1);
+      });
+    });
+  });
+
+  describe('identMismatchedRequesterIpRefusedByPolicy', () => {
+    it('should refuse ident from a different IP only when configured and noiptest is not set', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234', '10.1.2.3');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        refuseIdentOnIpMismatch: true,
+      });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        ip: '10.9.9.9',
+        body: client.generatePostBody('query')
+      });
+      client.parseServerBody(authResult.body || '');
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        ip: '10.9.9.9',
+        body: client.generatePostBody('ident')
+      });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, TIFFlags.CommandFailed);
+      assert.equal(storage.identCalls, 0);
+
+      client.skipIpAddressTest = true;
+      authResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        ip: '10.9.9.9',
+        body: client.generatePostBody('ident')
+      });
+      res = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, 0);
+      assert.equal(storage.identCalls, 1);
+    });
+  });
+
+  describe('queryVersionListNegotiatesHighestCommonVersion', () => {
+    let testCases = [
+      { clientVer: '1', expectedVersion: 1 },
+      { clientVer: '1-3', expectedVersion: 2 },
+      { clientVer: '2,5', expectedVersion: 2 },
+    ];
+    testCases.forEach(testCase => {
+      it(`should handle client ver=${testCase.clientVer} with revision ${testCase.expectedVersion}`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        let queryRequestInfo: ClientRequestInfo | undefined;
+        storage.onQuery = (clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> => {
+          queryRequestInfo = clientRequestInfo;
+          return Promise.resolve(<AuthCompletionInfo> { tifValues: 0 });
+        };
+        let v2Handler = new MockSQRLProtocolV2Handler(storage, new MockLogger(), <SQRLStrategyConfig> {});
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+          protocolHandlers: [ v2Handler ],
+        });
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234', 0, testCase.clientVer);
+        let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody('query')
+        });
+        let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+        assert.deepEqual(res.supportedProtocolVersions, [1, 2]);
+        assert.equal((<ClientRequestInfo> queryRequestInfo).protocolVersion, testCase.expectedVersion);
+        assert.equal(v2Handler.runCommandCalls, testCase.expectedVersion === 2 ? 1 : 0);
+      });
+    });
+  });
+
+  describe('apiErrorResponseTifValues', () => {
+    let testCases = [
+      // tslint:disable-next-line:no-bitwise
+      { name: 'malformed request', cmd: 'query', omitIDKey: true, queryError: undefined, tif: TIFFlags.CommandFailed | TIFFlags.ClientFailure, httpStatusCode: 400 },
+      // tslint:disable-next-line:no-bitwise
+      { name: 'unknown command', cmd: 'bogus', omitIDKey: false, queryError: undefined, tif: TIFFlags.CommandFailed | TIFFlags.FunctionNotSupported, httpStatusCode: 400 },
+      // tslint:disable-next-line:no-bitwise
+      { name: 'storage fault', cmd: 'query', omitIDKey: false, queryError: new Error('db down'), tif: TIFFlags.CommandFailed | TIFFlags.TransientError, httpStatusCode: 500 },
+      // tslint:disable-next-line:no-bitwise
+      { name: 'bad ID association', cmd: 'query', omitIDKey: false, queryError: new BadIDAssociationError('wrong identity'), tif: TIFFlags.CommandFailed | TIFFlags.BadIDAssociation, httpStatusCode: 400 },
+    ];
+    testCases.forEach(testCase => {
+      it(`should return the expected TIF values and a nut registered if the lineage is known for a ${testCase.name}`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        storage.onQuery = (): Promise<AuthCompletionInfo> => {
+          return testCase.queryError ? Promise.reject(testCase.queryError) : Promise.resolve(<AuthCompletionInfo> { tifValues: 0 });
+        };
+        let registeredOriginalLoginNut: string | undefined;
+        storage.onNutIssuedToClient = (urlAndNut: UrlAndNut, originalLoginNut?: string) => {
+          registeredOriginalLoginNut = originalLoginNut;
+        };
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+        });
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        client.omitIDKey = testCase.omitIDKey;
+        let res = new MockResponse();
+        await sqrl.handleSqrlApi(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody(testCase.cmd)
+        }, <express.Response> <any> res);
+        assert.equal(res.statusCode, testCase.httpStatusCode);
+        let serverRes: ServerResponseInfo = client.parseServerBody(res.body);
+        assert.equal(serverRes.tifValues, testCase.tif);
+        assert.isTrue((serverRes.askMessage || '').startsWith('Server error: '), serverRes.askMessage);
+        assert.equal(storage.nutIssuedToClientCalls, testCase.omitIDKey ? 0 : 1);
+        assert.equal(registeredOriginalLoginNut, testCase.omitIDKey ? undefined : '1234');
+      });
+    });
+  });
+
+  describe('apiErrorWithoutLineageIssuesNoUsableNut', () => {
+    let testCases = [
+      { name: 'an unknown nut', encrypted: false, lookupFault: false },
+      { name: 'a nut lookup fault', encrypted: false, lookupFault: true },
+      { name: 'an unknown encrypted nut', encrypted: true, lookupFault: false },
+    ];
+    testCases.forEach(testCase => {
+      it(`should not register or encrypt a response nut for ${testCase.name}`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+          encryptedNutKey: testCase.encrypted ? crypto.randomBytes(32) : undefined,
+        });
+        if (testCase.lookupFault) {
+          storage.onConsumeNut = (): NutInfo | null => { throw new Error('db down'); };
+        }
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=UNKNOWN');
+        let res = new MockResponse();
+        await sqrl.handleSqrlApi(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody('query')
+        }, <express.Response> <any> res);
+        let serverRes: ServerResponseInfo = client.parseServerBody(res.body);
+        // tslint:disable-next-line:no-bitwise
+        assert.equal(serverRes.tifValues & TIFFlags.TransientError, 0, 'Without a usable nut the client cannot retry');
+        assert.equal(storage.nutIssuedToClientCalls, 0);
+
+        // The response nut is rejected rather than starting or continuing a login.
+        storage.onConsumeNut = undefined;
+        res = new MockResponse();
+        await sqrl.handleSqrlApi(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody('query')
+        }, <express.Response> <any> res);
+        serverRes = client.parseServerBody(res.body);
+        // tslint:disable-next-line:no-bitwise
+        assert.equal(serverRes.tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+        assert.equal(storage.queryCalls, 0);
+      });
+    });
+  });
+
+  describe('queryRetryAfterTransientErrorSucceeds', () => {
+    it('should accept a retry using the nut and body from a TransientError response', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let failNextQuery = true;
+      storage.onQuery = (clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> => {
+        if (failNextQuery) {
+          failNextQuery = false;
+          return Promise.reject(new Error('db down'));
+        }
+        assert.equal(nutInfo.originalLoginNut, '1234');
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: 0 });
+      };
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let res = new MockResponse();
+      await sqrl.handleSqrlApi(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      }, <express.Response> <any> res);
+      let serverRes: ServerResponseInfo = client.parseServerBody(res.body);
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(serverRes.tifValues, TIFFlags.CommandFailed | TIFFlags.TransientError);
+
+      res = new MockResponse();
+      await sqrl.handleSqrlApi(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      }, <express.Response> <any> res);
+      assert.equal(res.statusCode, 200);
+      serverRes = client.parseServerBody(res.body);
+      assert.equal(serverRes.tifValues, 0);
+      assert.equal(storage.queryCalls, 2);
+    });
+  });
+
+  describe('replayedNutFails', () => {
+    let testCases = [ 'query', 'disable' ];
+    testCases.forEach(cmd => {
+      it(`should reject a replayed ${cmd} request without calling storage again`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+        });
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        let body = client.generatePostBody(cmd);
+        await sqrl.authenticateAsync(<express.Request> { method: "POST", body: body });
+        try {
+          await sqrl.authenticateAsync(<express.Request> { method: "POST", body: body });
+          assert.fail('Expected exception not thrown');
+        } catch (e) {
+          let err = <ClientInputError> e;
+          assert.isTrue(err.message.indexOf('already been used') >= 0, err.message);
+          assert.equal(400, err.httpStatusCode);
+        }
+        assert.equal(storage.queryCalls + storage.disableCalls, 1);
+      });
+    });
+  });
+
+  describe('outOfOrderNutFails', () => {
+    it('should reject a request presenting an earlier nut in the lineage', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      client.parseServerBody(authResult.body || '');
+
+      // Present the original QR-code nut again with a freshly signed request.
+      let replayClient = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      try {
+        await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: replayClient.generatePostBody('ident')
+        });
+        assert.fail('Expected exception not thrown');
+      } catch (e) {
+        let err = <ClientInputError> e;
+        assert.isTrue(err.message.indexOf('already been used') >= 0, err.message);
+      }
+      assert.equal(storage.identCalls, 0);
+    });
+  });
+
+  describe('identRetryOnUsedNutSucceeds', () => {
+    it('should allow an exact retry of an ident request and reject a different one', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      storage.onIdent = (): Promise<AuthCompletionInfo> => {
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+      };
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+        method: "POST",
+        body: client.generatePostBody('query')
+      });
+      client.parseServerBody(authResult.body || '');
+
+      // Response to the first ident is lost; the client sends the identical request again.
+      let identBody = client.generatePostBody('ident');
+      await sqrl.authenticateAsync(<express.Request> { method: "POST", body: identBody });
+      authResult = await sqrl.authenticateAsync(<express.Request> { method: "POST", body: identBody });
+      let res: ServerResponseInfo = client.parseServerBody(authResult.body || '');
+      assert.equal(res.tifValues, TIFFlags.CurrentIDMatch);
+      assert.equal(authResult.user.name, 'bob');
+      assert.equal(storage.identCalls, 2);
+
+      // A differently signed ident on the same used nut is a replay.
+      let otherClient = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      otherClient.lastServerResponseBody = identBody.server;
+      try {
+        await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: otherClient.generatePostBody('ident')
+        });
+        assert.fail('Expected exception not thrown');
+      } catch (e) {
+        let err = <ClientInputError> e;
+        assert.isTrue(err.message.indexOf('already been used') >= 0, err.message);
+      }
+      assert.equal(storage.identCalls, 2);
+    });
+  });
+
+  describe('staleNutFails', () => {
+    let testCases = [
+      { name: 'QR-code', followUp: false },
+      { name: 'follow-up', followUp: true },
+    ];
+    testCases.forEach(testCase => {
+      it(`should return TransientError with a nut continuing the login for an expired ${testCase.name} nut`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+          qrCodeNutMaxAgeSeconds: 300,
+          followUpNutMaxAgeSeconds: 60,
+        });
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        if (testCase.followUp) {
+          let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> {
+            method: "POST",
+            body: client.generatePostBody('query')
+          });
+          let nextNut: string = client.parseServerBody(authResult.body || '').nextNut || '';
+          storage.ageNut('1234', 200);  // Within the QR-code nut max age
+          storage.ageNut(nextNut, 61);
+        } else {
+          storage.ageNut('1234', 301);
+        }
+
+        let registrations: number = 0;
+        let registeredOriginalLoginNut: string | undefined;
+        storage.onNutIssuedToClient = (urlAndNut: UrlAndNut, originalLoginNut?: string) => {
+          registrations++;
+          registeredOriginalLoginNut = originalLoginNut;
+        };
+        let res = new MockResponse();
+        await sqrl.handleSqrlApi(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody(testCase.followUp ? 'ident' : 'query')
+        }, <express.Response> <any> res);
+        let serverRes: ServerResponseInfo = client.parseServerBody(res.body);
+        // tslint:disable-next-line:no-bitwise
+        assert.equal(serverRes.tifValues, TIFFlags.CommandFailed | TIFFlags.TransientError);
+        assert.equal(registrations, 1);
+        assert.equal(registeredOriginalLoginNut, '1234');
+        assert.equal(storage.queryCalls, testCase.followUp ? 1 : 0);
+        assert.equal(storage.identCalls, 0);
+      });
+    });
+  });
+
+  describe('encryptedNutExpires', () => {
+    it('should reject an encrypted QR-code nut older than the configured max age', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        encryptedNutKey: crypto.randomBytes(32),
+        qrCodeNutMaxAgeSeconds: 0,
+      });
+
+      let client = new MockSQRLClient(sqrl.getSqrlUrl(<express.Request> {}).url);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      try {
+        await sqrl.authenticateAsync(<express.Request> {
+          method: "POST",
+          body: client.generatePostBody('query')
+        });
+        assert.fail('Expected exception not thrown');
+      } catch (e) {
+        let err = <StaleNutError> e;
+        assert.isTrue(err instanceof StaleNutError, err.message);
+        assert.equal(storage.queryCalls, 0);
+      }
+    });
+  });
+
+  describe('apiRateLimitExceededReturnsTransientError', () => {
+    let testCases = [
+      { name: 'IP address', rateLimits: { maxRequestsPerIp: 2 }, sameIdentity: false },
+      { name: 'identity', rateLimits: { maxRequestsPerIdentity: 2 }, sameIdentity: true },
+    ];
+    testCases.forEach(testCase => {
+      it(`should reject requests over the per-${testCase.name} limit before calling identity storage`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+          rateLimits: testCase.rateLimits,
+        });
+
+        let identityClient = new MockSQRLClient('sqrl://foo.com/login?nut=1');
+        let res = new MockResponse();
+        for (let i = 1; i <= 3; i++) {
+          // Each request uses its own login page nut.
+          storage.addQrCodeNut(`sqrl://foo.com/login?nut=${i}`, `${i}`);
+          let client = testCase.sameIdentity ? identityClient : new MockSQRLClient(`sqrl://foo.com/login?nut=${i}`);
+          client.lastServerResponseBody = base64url.encode(`sqrl://foo.com/login?nut=${i}`);
+          res = new MockResponse();
+          await sqrl.handleSqrlApi(<express.Request> {
+            method: "POST",
+            ip: '10.1.2.3',
+            body: client.generatePostBody('query')
+          }, <express.Response> <any> res);
+          assert.equal(res.statusCode, i <= 2 ? 200 : 429, `Request ${i}`);
+        }
+
+        let serverRes: ServerResponseInfo = identityClient.parseServerBody(res.body);
+        // tslint:disable-next-line:no-bitwise
+        assert.equal(serverRes.tifValues, TIFFlags.CommandFailed | TIFFlags.TransientError);
+        assert.isDefined(serverRes.nextNut);
+        assert.equal(storage.consumeNutCalls, 3);
+        assert.equal(storage.queryCalls, 2);
+        assert.equal(storage.nutIssuedToClientCalls, 3);
+
+        // A retry with the response's nut, once under the limit, continues the login of the rate limited nut.
+        storage.onQuery = (clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> => {
+          assert.equal(nutInfo.originalLoginNut, '3');
+          return Promise.resolve(<AuthCompletionInfo> { tifValues: 0 });
+        };
+        let unlimitedSqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+        res = new MockResponse();
+        await unlimitedSqrl.handleSqrlApi(<express.Request> {
+          method: "POST",
+          ip: '10.1.2.3',
+          body: identityClient.generatePostBody('query')
+        }, <express.Response> <any> res);
+        assert.equal(res.statusCode, 200);
+        assert.equal(identityClient.parseServerBody(res.body).tifValues, 0);
+        assert.equal(storage.queryCalls, 3);
+      });
+    });
+  });
+
+  describe('postWithoutBodyParserReadsBody', () => {
+    let testCases = [
+      { name: 'no body parser', parsedBody: undefined, bodyParserRan: false },
+      { name: 'a body parser skipping the content type', parsedBody: {}, bodyParserRan: false },
+    ];
+    testCases.forEach(testCase => {
+      it(`should read and parse the urlencoded body with ${testCase.name}`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        let req = mockExpressStreamRequest(querystring.stringify(postBodyFields(client.generatePostBody('query'))));
+        req.body = testCase.parsedBody;
+        let res = new MockResponse();
+        await sqrl.handleSqrlApi(req, <express.Response> <any> res);
+        assert.equal(res.statusCode, 200);
+        assert.equal(client.parseServerBody(res.body).tifValues, 0);
+        assert.equal(storage.queryCalls, 1);
+      });
+    });
+  });
+
+  describe('getReadsQueryString', () => {
+    it('should read GET request fields from the query string', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let authResult: AuthenticateAsyncResult = await sqrl.authenticateAsync(<express.Request> <any> {
+        method: "GET",
+        params: {},
+        query: postBodyFields(client.generatePostBody('query')),
+      });
+      assert.equal(authResult.httpResponseCode, 200);
+      assert.equal(storage.queryCalls, 1);
+    });
+  });
+
+  describe('oversizedOrMalformedBodyFails', () => {
+    let testCases = [
+      { name: 'over the configured size', body: 'client=' + 'a'.repeat(200), contentType: 'application/x-www-form-urlencoded', status: 413 },
+      { name: 'with a JSON content type', body: '{}', contentType: 'application/json', status: 415 },
+      { name: 'with an unsupported charset', body: 'client=a', contentType: 'application/x-www-form-urlencoded; charset=utf-16', status: 415 },
+    ];
+    testCases.forEach(testCase => {
+      it(`should reject a body ${testCase.name} with HTTP status ${testCase.status}`, async () => {
+        let storage = new MockSQRLIdentityStorage();
+        let sqrl = new MockSQRLExpress(storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+          maxRequestBodyBytes: 100,
+        });
+
+        let req = mockExpressStreamRequest(testCase.body, testCase.contentType);
+        let res = new MockResponse();
+        await sqrl.handleSqrlApi(req, <express.Response> <any> res);
+        assert.equal(res.statusCode, testCase.status);
+        assert.equal(storage.consumeNutCalls, 0);
+      });
+    });
+  });
+});
+
+describe('SQRLEngine', () => {
+  describe('splitStoresReceiveTheirOwnCalls', () => {
+    it('should send nut calls to the nut store and identity calls to the identity store', async () => {
+      let nutStore = new MockSQRLIdentityStorage();
+      let identityStore = new MockSQRLIdentityStorage();
+      identityStore.onIdent = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+      nutStore.addQrCodeNut('sqrl://domain.com/login?nut=1234', '1234');
+      let engine = new SQRLEngine(new SQRLStores(nutStore, identityStore), new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+
+      let client = new MockSQRLClient('sqrl://domain.com/login?nut=1234');
+      for (let cmd of ['query', 'ident']) {
+        let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> {
+          method: 'POST',
+          params: client.generatePostBody(cmd),
+        });
+        assert.equal(result.httpResponseCode, 200, cmd);
+        client.parseServerBody(result.body || '');
+      }
+      assert.equal(nutStore.consumeNutCalls, 2);
+      assert.equal(nutStore.nutIssuedToClientCalls, 2);
+      assert.deepEqual(nutStore.completedLogins, { 1234: { name: "bob" } });
+      assert.equal(nutStore.queryCalls + nutStore.identCalls, 0);
+      assert.equal(identityStore.queryCalls, 1);
+      assert.equal(identityStore.identCalls, 1);
+      assert.equal(identityStore.consumeNutCalls + identityStore.nutIssuedToClientCalls, 0);
+      assert.deepEqual(identityStore.completedLogins, {});
+    });
+
+    it('should use a single ISQRLIdentityStorage as both stores', () => {
+      let storage = new MockSQRLIdentityStorage();
+      let stores: SQRLStores = SQRLStores.fromIdentityStorage(storage);
+      assert.strictEqual(stores.nutStore, storage);
+      assert.strictEqual(stores.identityStore, storage);
+    });
+  });
+
+  describe('queryIdentWithApiRequestSucceeds', () => {
+    it('should run a login from transport-neutral requests', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.onIdent = () => Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CurrentIDMatch, user: { name: "bob" } });
+      let nativeRequests: any[] = [];
+      let engine = new SQRLEngine(storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        urlPath: '/sqrl',
+        nutGenerator: (req: any): string => {
+          nativeRequests.push(req);
+          return 'nut' + nativeRequests.length;
+        }
+      });
+
+      let nativeRequest = { native: true };
+      let urlAndNut: UrlAndNut = engine.getSqrlUrl(<SQRLApiRequest> { requesterIp: '10.0.0.1', nativeRequest: nativeRequest });
+      assert.equal(urlAndNut.url, 'sqrl://domain.com/sqrl?nut=nut1');
+      assert.equal(urlAndNut.requesterIp, '10.0.0.1');
+      assert.strictEqual(nativeRequests[0], nativeRequest);
+      storage.addQrCodeNut(urlAndNut.url, urlAndNut.nutString, urlAndNut.requesterIp);
+
+      let client = new MockSQRLClient(urlAndNut.url);
+      let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> {
+        method: 'POST',
+        params: client.generatePostBody('query'),
+        requesterIp: '10.0.0.1',
+      });
+      assert.equal(result.httpResponseCode, 200);
+      client.parseServerBody(result.body || '');
+
+      result = await engine.handleRequestAsync(<SQRLApiRequest> {
+        method: 'POST',
+        params: client.generatePostBody('ident'),
+        requesterIp: '10.0.0.1',
+      });
+      assert.equal(result.httpResponseCode, 200);
+      assert.equal(result.user.name, 'bob');
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(client.parseServerBody(result.body || '').tifValues, TIFFlags.CurrentIDMatch | TIFFlags.IPAddressesMatch);
+    });
+  });
+
+  describe('handleRequestAsyncReturnsErrorResponse', () => {
+    it('should return an error response body rather than throwing', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      let engine = new SQRLEngine(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=unknown');
+      let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> {
+        method: 'POST',
+        params: client.generatePostBody('query'),
+      });
+      assert.equal(result.httpResponseCode, 400);
+      // tslint:disable-next-line:no-bitwise
+      assert.equal(client.parseServerBody(result.body || '').tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure);
+    });
+
+    it('should return ClientFailure with HTTP status 400 for a client= or server= line without an equal sign', async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+      let engine = new SQRLEngine(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+      let malformed: string = base64url.encode('ver=1\r\nmalformed\r\n');
+
+      for (let field of ['client', 'server']) {
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        let params: any = client.generatePostBody('query');
+        params[field] = malformed;
+        let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> { method: 'POST', params: params });
+        assert.equal(result.httpResponseCode, 400, field);
+        // tslint:disable-next-line:no-bitwise
+        assert.equal(client.parseServerBody(result.body || '').tifValues, TIFFlags.CommandFailed | TIFFlags.ClientFailure, field);
+      }
+      assert.equal(storage.queryCalls, 0);
+    });
+  });
+});
+
+describe('SQRLKoa', () => {
+  let testCases = [
+    { name: 'parsed by a body parser', preParsed: true },
+    { name: 'read from the request stream', preParsed: false },
+  ];
+  testCases.forEach(testCase => {
+    it(`should handle a query with the body ${testCase.name}`, async () => {
+      let storage = new MockSQRLIdentityStorage();
+      storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234', '10.0.0.1');
+      let sqrl = new SQRLKoa(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let body = postBodyFields(client.generatePostBody('query'));
+      let req = new stream.PassThrough();
+      req.end(querystring.stringify(body));
+      let ctx = <IKoaContext> <any> {
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        ip: '10.0.0.1',
+        method: 'POST',
+        req: req,
+        request: { body: testCase.preParsed ? body : undefined },
+      };
+      await sqrl.middleware(ctx);
+      assert.equal(ctx.status, 200);
+      assert.equal(ctx.type, 'text/plain');
+      assert.equal(client.parseServerBody(ctx.body).tifValues, TIFFlags.IPAddressesMatch);
+      assert.equal(storage.queryCalls, 1);
+    });
+  });
+});
+
+describe('SQRLFastify', () => {
+  it('should handle a query with the body parsed as a string', async () => {
+    let storage = new MockSQRLIdentityStorage();
+    storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234');
+    let sqrl = new SQRLFastify(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+    let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+    let reply = new MockFastifyReply();
+    await sqrl.handler(<IFastifyRequest> {
+      body: querystring.stringify(postBodyFields(client.generatePostBody('query'))),
+      ip: '10.0.0.2',
+      method: 'POST',
+    }, reply);
+    assert.equal(reply.statusCode, 200);
+    assert.equal(reply.contentType, 'text/plain');
+    assert.equal(client.parseServerBody(reply.payload).tifValues, 0);
+    assert.equal(storage.queryCalls, 1);
+  });
+});
+
+describe('SQRLNodeHttp', () => {
+  it('should handle a query and reject an oversized body over a real HTTP connection', async () => {
+    let storage = new MockSQRLIdentityStorage();
+    storage.addQrCodeNut('sqrl://foo.com/login?nut=1234', '1234', '127.0.0.1');
+    let sqrl = new SQRLNodeHttp(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+    let server = http.createServer(sqrl.handleRequest);
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      let port: number = (<any> server.address()).port;
+      let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+      let res = await postFormAsync(port, querystring.stringify(postBodyFields(client.generatePostBody('query'))));
+      assert.equal(res.statusCode, 200);
+      assert.equal(client.parseServerBody(res.body).tifValues, TIFFlags.IPAddressesMatch);
+      assert.equal(storage.queryCalls, 1);
+
+      res = await postFormAsync(port, 'client=' + 'a'.repeat(20000));
+      assert.equal(res.statusCode, 413);
+      assert.equal(storage.queryCalls, 1);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  describe('incrementCountsPerKey', () => {
+    it('should count requests separately per key and sweep old windows', async () => {
+      let store = new MemoryRateLimitStore(/*maxKeys:*/2);
+      assert.equal(await store.incrementAsync('ip:a', 60), 1);
+      assert.equal(await store.incrementAsync('ip:a', 60), 2);
+      assert.equal(await store.incrementAsync('ip:b', 60), 1);
+
+      // A one-millisecond window has always passed by the next call, restarting the count.
+      await new Promise(resolve => setTimeout(resolve, 2));
+      assert.equal(await store.incrementAsync('ip:c', 0.001), 1);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      assert.equal(await store.incrementAsync('ip:c', 0.001), 1);
+    });
+  });
+});
+
+describe('BodyParser', () => {
+  describe('parseVersionListCases', () => {
+    let testCases = [
+      { ver: '1', expected: [1] },
+      { ver: '1-3,5', expected: [1, 2, 3, 5] },
+      { ver: '5,1-2,2', expected: [1, 2, 5] },
+    ];
+    testCases.forEach(testCase => {
+      it(`should parse ver=${testCase.ver} and format it back in canonical form`, () => {
+        let versions: number[] = BodyParser.parseVersionList(testCase.ver);
+        assert.deepEqual(versions, testCase.expected);
+        assert.deepEqual(BodyParser.parseVersionList(BodyParser.formatVersionList(versions)), versions);
+      });
+    });
+
+    ['', 'a', '1-', '3-1', '1-2-3', '1-100000'].forEach(ver => {
+      it(`should throw ClientInputError for malformed ver=${ver}`, () => {
+        assert.throws(() => BodyParser.parseVersionList(ver), ClientInputError);
+      });
+    });
+
+    it('should collapse runs into ranges when formatting', () => {
+      assert.equal(BodyParser.formatVersionList([1]), '1');
+      assert.equal(BodyParser.formatVersionList([1, 2, 3, 5, 7, 8]), '1-3,5,7-8');
+    });
+  });
+
+  describe('encodeAskFieldCases', () => {
+    // Each part is the base64url encoding of its UTF-8 text, per https://www.grc.com/sqrl/semantics.htm:
+    // 'Remove this identity?', 'Yes; remove~', 'https://foo.com/removed?a=1', and 'Cancel'.
+    let testCases = [
+      { name: 'a message alone', ask: <AskMessage> { message: 'Remove this identity?' },
+        expected: 'UmVtb3ZlIHRoaXMgaWRlbnRpdHk_' },
+      { name: 'a button with a URL and a button without', ask: <AskMessage> {
+          message: 'Remove this identity?',
+          button1Label: 'Yes; remove~', button1Url: 'https://foo.com/removed?a=1',
+          button2Label: 'Cancel',
+        },
+        expected: 'UmVtb3ZlIHRoaXMgaWRlbnRpdHk_~WWVzOyByZW1vdmV-;aHR0cHM6Ly9mb28uY29tL3JlbW92ZWQ_YT0x~Q2FuY2Vs' },
+    ];
+    testCases.forEach(testCase => {
+      it(`should encode ${testCase.name} as the protocol specifies`, () => {
+        assert.equal(BodyParser.encodeAskField(testCase.ask), testCase.expected);
+      });
+    });
+  });
+
+  describe('parseUrlEncodedBodyCases', () => {
+    it('should parse fields with or without a content type and charset', () => {
+      assert.deepEqual(BodyParser.parseUrlEncodedBody('client=abc&server=d%3De\r\n'), { client: 'abc', server: 'd=e' });
+      assert.deepEqual(
+          BodyParser.parseUrlEncodedBody(Buffer.from('ids=x'), 'Application/X-WWW-Form-Urlencoded; charset="UTF-8"'),
+          { ids: 'x' });
+      assert.deepEqual(BodyParser.parseUrlEncodedBody('ids=x', 'application/x-www-form-urlencoded;charset=us-ascii'), { ids: 'x' });
+    });
+
+    let badCases = [
+      { name: 'a text/plain content type', body: 'ids=x', contentType: 'text/plain' },
+      { name: 'a latin1 charset', body: 'ids=x', contentType: 'application/x-www-form-urlencoded; charset=iso-8859-1' },
+      { name: 'non-ASCII content', body: 'ids=\u00e9', contentType: undefined },
+      { name: 'a repeated field', body: 'ids=x&ids=y', contentType: undefined },
+    ];
+    badCases.forEach(testCase => {
+      it(`should throw ClientInputError for ${testCase.name}`, () => {
+        assert.throws(() => BodyParser.parseUrlEncodedBody(testCase.body, testCase.contentType), ClientInputError);
+      });
+    });
+  });
+});
+
+class MockSQRLProtocolV2Handler extends SQRLProtocolV1Handler {
+  public readonly protocolVersion: number = 2;
+  public runCommandCalls = 0;
+
+  public runCommandAsync(params: any, clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    this.runCommandCalls++;
+    return super.runCommandAsync(params, clientRequestInfo, nutInfo);
+  }
+}
+
+class MockSQRLIdentityStorage implements ISQRLIdentityStorage {
+  public queryCalls = 0;
+  public identCalls = 0;
+  public disableCalls = 0;
+  public enableCalls = 0;
+  public removeCalls = 0;
+  public nutIssuedToClientCalls = 0;
+  public consumeNutCalls = 0;
+  public getServerVerifyUnlockKeyCalls = 0;
+
+  /** Map from identity public key to its stored Server Verify Unlock Key. */
+  public verifyUnlockKeys: any = {};
+
+  /** Map from original login nut to the user recorded by loginCompletedAsync(). */
+  public completedLogins: any = {};
+
+  /** Original login nuts passed to identityDisabledAtLoginAsync(). */
+  public disabledLogins: string[] = [];
+  
+  public onQuery?: AuthCallback;
+  public onIdent?: AuthCallback;
+  public onDisable?: AuthCallback;
+  public onEnable?: AuthCallback;
+  public onRemove?: AuthCallback;
+  public onNutIssuedToClient?: (urlAndNut: UrlAndNut, originalLoginNut?: string) => void;
+  public onConsumeNut?: (nut: string) => NutInfo | null;
+
+  private issuedNuts: any = {};
+
+  /** Registers an original QR-code nut as if issued by the login page, without counting a call. */
+  public addQrCodeNut(url: string, nut: string, requesterIp?: string): void {
+    this.issuedNuts[nut] = <NutInfo> { nut: nut, url: url, requesterIp: requesterIp, issuedAt: new Date() };
+  }
+
+  /** Ages an issued nut as if it were issued the given number of seconds ago. */
+  public ageNut(nut: string, ageSeconds: number): void {
+    this.issuedNuts[nut].issuedAt = new Date(Date.now() - ageSeconds * 1000);
+  }
+
+  public nutIssuedToClientAsync(urlAndNut: UrlAndNut, originalLoginNut?: string): Promise<void> {
+    this.nutIssuedToClientCalls++;
+    if (this.onNutIssuedToClient) {
+      this.onNutIssuedToClient(urlAndNut, originalLoginNut);
+      return Promise.resolve();
+    }
+    this.issuedNuts[urlAndNut.nutString] = <NutInfo> {
+      nut: urlAndNut.nutString,
+      originalLoginNut: originalLoginNut,
+      url: urlAndNut.url,
+      serverResponseBody: urlAndNut.serverResponseBody,
+      requesterIp: urlAndNut.requesterIp,
+      issuedAt: urlAndNut.issuedAt
+    };
+    return Promise.resolve();
+  }
+
+  public consumeNutAsync(nut: string, requestFingerprint: string): Promise<NutInfo | null> {
+    this.consumeNutCalls++;
+    if (this.onConsumeNut) {
+      return Promise.resolve(this.onConsumeNut(nut));
+    }
+    let nutInfo: NutInfo | undefined = this.issuedNuts[nut];
+    if (!nutInfo) {
+      return Promise.resolve(null);
+    }
+    let result = <NutInfo> { ...nutInfo };
+    if (!nutInfo.consumedByRequest) {
+      nutInfo.consumedByRequest = requestFingerprint;
+    }
+    return Promise.resolve(result);
+  }
+  
+  public loginCompletedAsync(originalLoginNut: string, user: any): Promise<void> {
+    this.completedLogins[originalLoginNut] = user;
+    return Promise.resolve();
+  }
+
+  public consumeCompletedLoginAsync(nut: string): Promise<any | null> {
+    let nutInfo: NutInfo | undefined = this.issuedNuts[nut];
+    let originalLoginNut: string = nutInfo && nutInfo.originalLoginNut ? nutInfo.originalLoginNut : nut;
+    let user: any = this.completedLogins[originalLoginNut] || null;
+    delete this.completedLogins[originalLoginNut];
+    return Promise.resolve(user);
+  }
+
+  public identityDisabledAtLoginAsync(originalLoginNut: string): Promise<void> {
+    this.disabledLogins.push(originalLoginNut);
+    return Promise.resolve();
+  }
+
+  public getLoginStatusAsync(nut: string): Promise<LoginStatusInfo | null> {
+    let nutInfo: NutInfo | undefined = this.issuedNuts[nut];
+    if (!nutInfo) {
+      return Promise.resolve(null);
+    }
+    let originalLoginNut: string = nutInfo.originalLoginNut || nut;
+    return Promise.resolve(<LoginStatusInfo> {
+      identityDisabled: this.disabledLogins.indexOf(originalLoginNut) >= 0,
+      issuedAt: this.issuedNuts[originalLoginNut] ? this.issuedNuts[originalLoginNut].issuedAt : undefined,
+      loginCompleted: originalLoginNut in this.completedLogins,
+    });
+  }
+
+  public getServerVerifyUnlockKeyAsync(identityPublicKey: string): Promise<string | null> {
+    this.getServerVerifyUnlockKeyCalls++;
+    return Promise.resolve(this.verifyUnlockKeys[identityPublicKey] || null);
+  }
+
+  public queryAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    this.queryCalls++;
+    if (this.onQuery) {
+      return this.onQuery(clientRequestInfo, nutInfo);
+    }
+    return Promise.resolve(<AuthCompletionInfo> {});
+  }
+
+  public identAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    this.identCalls++;
+    if (this.onIdent) {
+      return this.onIdent(clientRequestInfo, nutInfo);
+    }
+    return Promise.resolve(<AuthCompletionInfo> {});
+  }
+
+  public disableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    this.disableCalls++;
+    if (this.onDisable) {
+      return this.onDisable(clientRequestInfo, nutInfo);
+    }
+    return Promise.resolve(<AuthCompletionInfo> {});
+  }
+
+  public enableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    this.enableCalls++;
+    if (this.onEnable) {
+      return this.onEnable(clientRequestInfo, nutInfo);
+    }
+    return Promise.resolve(<AuthCompletionInfo> {});
+  }
+
+  public removeAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    this.removeCalls++;
+    if (this.onRemove) {
+      return this.onRemove(clientRequestInfo, nutInfo);
+    }
+    return Promise.resolve(<AuthCompletionInfo> {});
+  }
+}
+
+/** Exposes base class protected members as public for unit testing. */
+class MockResponse {
+  public statusCode: number = 0;
+  public body: string = '';
+
+  public send(body: string): void {
+    this.body = body;
+  }
+}
+
+class MockFastifyReply implements IFastifyReply {
+  public statusCode: number = 0;
+  public contentType: string = '';
+  public payload: any;
+
+  public code(statusCode: number): IFastifyReply {
+    this.statusCode = statusCode;
+    return this;
+  }
+
+  public type(contentType: string): IFastifyReply {
+    this.contentType = contentType;
+    return this;
+  }
+
+  public send(payload?: any): IFastifyReply {
+    this.payload = payload;
+    return this;
+  }
+}
+
+class MockSQRLExpress extends SQRLExpress {
+  public storage: MockSQRLIdentityStorage;
+
+  constructor(mockStorage: MockSQRLIdentityStorage, log: ILogger, config: SQRLStrategyConfig) {
+    super(mockStorage, log, config);
+    this.storage = mockStorage;
+  }
+
+  public async authenticateAsync(req: express.Request, requestState?: any): Promise<AuthenticateAsyncResult> {
+    return super.authenticateAsync(req, requestState);
+  }
+}
+
+/** Returns a POST request with an unparsed body stream, as Express presents it without a body parser. */
+function mockExpressStreamRequest(body: string, contentType: string = 'application/x-www-form-urlencoded'): express.Request {
+  let req: any = new stream.PassThrough();
+  req.method = "POST";
+  req.headers = { 'content-type': contentType };
+  req.end(body);
+  return <express.Request> req;
+}
+
+/** Returns the defined fields of a mock client POST body, for urlencoding. */
+function postBodyFields(body: any): any {
+  return JSON.parse(JSON.stringify(body));
+}
+
+/** POSTs a urlencoded body to a local HTTP server, returning the status code and body. */
+function postFormAsync(port: number, body: string): Promise<{ statusCode: number, body: string }> {
+  return new Promise((resolve, reject) => {
+    let req = http.request({
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      host: '127.0.0.1',
+      method: 'POST',
+      path: '/sqrl',
+      port: port,
+    }, res => {
+      let resBody = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => resBody += chunk);
+      res.on('end', () => resolve({ statusCode: res.statusCode || 0, body: resBody }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
 }
 
 function pollForCondition(cond: () => boolean, done: (err?: Error) => void, startTime: number, timeoutMs: number, onCond: () => void) {
@@ -0,0 +1,322 @@
+// Unit test suite for SQRLLoginStatus code.
+
+import { assert } from "chai";
+import * as crypto from 'crypto';
+import * as events from 'events';
+import * as express from 'express';
+import { EncryptedNutCodec, ILoginEventPubSub, ISQRLIdentityStorage, LoginEventBus, LoginStatusConfig, LoginStatusInfo, MemoryLoginEventPubSub, NutPollResult, NutPollStatus, SQRLLoginStatus, SQRLStrategyConfig, SqrlUrlFactory } from '../passport-sqrl';
+import { MockLogger } from '../SqrlTests/MockLogger';
+
+describe('SQRLLoginStatus', () => {
+  describe('pendingLoginLogsInOnCompletion', () => {
+    it('should report pending, then log in the session once', async () => {
+      let storage = new MockLoginStorage();
+      storage.loginStatuses['1234'] = <LoginStatusInfo> { issuedAt: new Date() };
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), <SQRLStrategyConfig> {
+        clientLoginSuccessUrl: '/home',
+        localDomainName: 'domain.com',
+      });
+
+      let req = mockPollRequest('1234');
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginStatus(req, <express.Response> <any> res);
+      assert.equal(res.statusCode, 200);
+      assert.equal(res.headers['Cache-Control'], 'no-store');
+      assert.deepEqual(res.body, { loggedIn: false, status: NutPollStatus.Pending });
+
+      storage.completedLogins['1234'] = { name: 'bob' };
+      res = new MockJsonResponse();
+      await loginStatus.handleLoginStatus(req, <express.Response> <any> res);
+      assert.deepEqual(res.body, <NutPollResult> { loggedIn: true, redirectTo: '/home', status: NutPollStatus.LoggedIn });
+      assert.equal((<any> req).loggedInUser.name, 'bob');
+
+      res = new MockJsonResponse();
+      await loginStatus.handleLoginStatus(req, <express.Response> <any> res);
+      assert.equal(res.body.status, NutPollStatus.Pending, 'A completed login should log in only once');
+    });
+  });
+
+  describe('expiredAndDisabledLogins', () => {
+    let testCases = [
+      { name: 'forgotten by storage', statusInfo: null, expected: NutPollStatus.Expired },
+      { name: 'older than the QR code nut maximum age', statusInfo: { issuedAt: new Date(Date.now() - 120000) }, expected: NutPollStatus.Expired },
+      { name: 'presenting a disabled identity', statusInfo: { identityDisabled: true, issuedAt: new Date() }, expected: NutPollStatus.Disabled },
+    ];
+    testCases.forEach(testCase => {
+      it(`should report ${testCase.expected} for a login ${testCase.name}`, async () => {
+        let storage = new MockLoginStorage();
+        storage.loginStatuses['1234'] = testCase.statusInfo;
+        let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), <SQRLStrategyConfig> {
+          localDomainName: 'domain.com',
+          qrCodeNutMaxAgeSeconds: 60,
+        });
+
+        let res = new MockJsonResponse();
+        await loginStatus.handleLoginStatus(mockPollRequest('1234'), <express.Response> <any> res);
+        assert.equal(res.statusCode, 200);
+        assert.deepEqual(res.body, { loggedIn: false, status: testCase.expected });
+      });
+    });
+  });
+
+  describe('encryptedFollowUpNutUsesOriginalNut', () => {
+    it('should look up the login by the original nut and expire it by its issue time', async () => {
+      let key = crypto.randomBytes(32);
+      let codec = new EncryptedNutCodec(key);
+      let qrCodeNut: string = SqrlUrlFactory.nutToString(codec.createQrCodeNut('10.0.0.1'));
+      let followUpNut: string = SqrlUrlFactory.nutToString(
+        codec.createFollowUpNut('10.0.0.1', EncryptedNutCodec.responseDigest('ver=1\r\n', ''), qrCodeNut));
+      let storage = new MockLoginStorage();
+      let config = <SQRLStrategyConfig> { localDomainName: 'domain.com', encryptedNutKey: key };
+
+      let res = new MockJsonResponse();
+      await new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), config).handleLoginStatus(mockPollRequest(followUpNut), <express.Response> <any> res);
+      assert.equal(res.body.status, NutPollStatus.Pending, 'Encrypted nuts carry their issue time without storage');
+      assert.deepEqual(storage.consumedNuts, [qrCodeNut]);
+
+      config.qrCodeNutMaxAgeSeconds = -1;
+      res = new MockJsonResponse();
+      await new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), config).handleLoginStatus(mockPollRequest(followUpNut), <express.Response> <any> res);
+      assert.equal(res.body.status, NutPollStatus.Expired);
+    });
+  });
+
+  describe('requestErrors', () => {
+    it('should return 400 for a missing nut', async () => {
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> new MockLoginStorage(), new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginStatus(<express.Request> <any> { params: {}, query: {} }, <express.Response> <any> res);
+      assert.equal(res.statusCode, 400);
+    });
+
+    it('should return 429 over the per-nut rate limit, with the configured cache header', async () => {
+      let storage = new MockLoginStorage();
+      storage.loginStatuses['1234'] = <LoginStatusInfo> { issuedAt: new Date() };
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' },
+        <LoginStatusConfig> { cacheControl: 'private, no-cache', rateLimits: { maxRequestsPerNut: 1 } });
+
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginStatus(mockPollRequest('1234'), <express.Response> <any> res);
+      assert.equal(res.statusCode, 200);
+      res = new MockJsonResponse();
+      await loginStatus.handleLoginStatus(mockPollRequest('1234'), <express.Response> <any> res);
+      assert.equal(res.statusCode, 429);
+      assert.equal(res.headers['Cache-Control'], 'private, no-cache');
+    });
+
+    it('should return 500 without the PassportJS middleware', async () => {
+      let storage = new MockLoginStorage();
+      storage.completedLogins['1234'] = { name: 'bob' };
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginStatus(<express.Request> <any> { params: { nut: '1234' } }, <express.Response> <any> res);
+      assert.equal(res.statusCode, 500);
+    });
+  });
+});
+
+describe('SQRLLoginStatusEvents', () => {
+  describe('completedLoginPushed', () => {
+    it('should push a completed status on a published login, then end the stream', async () => {
+      let storage = new MockLoginStorage();
+      storage.loginStatuses['1234'] = <LoginStatusInfo> { issuedAt: new Date() };
+      let bus = new LoginEventBus();
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        loginEventBus: bus,
+      });
+
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginEvents(mockPollRequest('1234'), <express.Response> <any> res);
+      await res.waitForWritesAsync();
+      assert.equal(res.headers['Content-Type'], 'text/event-stream');
+      assert.isFalse(res.ended, 'A pending login should keep the stream open');
+
+      storage.loginStatuses['1234'] = <LoginStatusInfo> { issuedAt: new Date(), loginCompleted: true };
+      await bus.publishAsync('1234', NutPollStatus.Completed);
+      await res.waitForWritesAsync();
+      assert.isTrue(res.ended);
+      assert.equal(res.writes[res.writes.length - 1],
+        `event: status\ndata: ${JSON.stringify({ loggedIn: false, status: NutPollStatus.Completed })}\n\n`);
+      assert.deepEqual(storage.consumedNuts, [], 'The event stream should not consume the login');
+    });
+  });
+
+  describe('finishedLoginSentImmediately', () => {
+    it('should send an expired status without waiting for an event', async () => {
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> new MockLoginStorage(), new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+      });
+
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginEvents(mockPollRequest('1234'), <express.Response> <any> res);
+      await res.waitForWritesAsync();
+      assert.isTrue(res.ended);
+      assert.include(res.writes[res.writes.length - 1], `"status":"${NutPollStatus.Expired}"`);
+    });
+  });
+
+  describe('subscribeErrorEndsStream', () => {
+    it('should end the stream rather than reject when the event bus throws', async () => {
+      let storage = new MockLoginStorage();
+      storage.loginStatuses['1234'] = <LoginStatusInfo> { issuedAt: new Date() };
+      let bus = new LoginEventBus();
+      bus.subscribe = () => { throw new Error('Injected failure'); };
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        loginEventBus: bus,
+      });
+
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginEvents(mockPollRequest('1234'), <express.Response> <any> res);
+      assert.isTrue(res.ended);
+    });
+  });
+
+  describe('closedStreamUnsubscribes', () => {
+    it('should stop listening for events when the browser disconnects', async () => {
+      let storage = new MockLoginStorage();
+      storage.loginStatuses['1234'] = <LoginStatusInfo> { issuedAt: new Date() };
+      let bus = new LoginEventBus();
+      let loginStatus = new SQRLLoginStatus(<ISQRLIdentityStorage> <any> storage, new MockLogger(), <SQRLStrategyConfig> {
+        localDomainName: 'domain.com',
+        loginEventBus: bus,
+      });
+
+      let req = mockPollRequest('1234');
+      let res = new MockJsonResponse();
+      await loginStatus.handleLoginEvents(req, <express.Response> <any> res);
+      req.emit('close');
+      assert.isTrue(res.ended);
+      let writeCount: number = res.writes.length;
+      storage.loginStatuses['1234'] = <LoginStatusInfo> { issuedAt: new Date(), loginCompleted: true };
+      await bus.publishAsync('1234', NutPollStatus.Completed);
+      await res.waitForWritesAsync();
+      assert.equal(res.writes.length, writeCount);
+    });
+  });
+});
+
+describe('LoginEventBus', () => {
+  describe('subscribersReceiveTheirLogins', () => {
+    it('should deliver events only to subscribers of the login until unsubscribed', async () => {
+      let bus = new LoginEventBus();
+      let received: string[] = [];
+      let unsubscribe = bus.subscribe('1234', status => received.push('1234:' + status));
+      bus.subscribe('5678', status => received.push('5678:' + status));
+
+      await bus.publishAsync('1234', NutPollStatus.Completed);
+      unsubscribe();
+      await bus.publishAsync('1234', NutPollStatus.Disabled);
+      await bus.publishAsync('5678', NutPollStatus.Disabled);
+      assert.deepEqual(received, ['1234:completed', '5678:disabled']);
+    });
+  });
+
+  describe('objectPropertyNutsAreOrdinary', () => {
+    it('should deliver events for nuts named like Object.prototype properties', async () => {
+      let bus = new LoginEventBus();
+      let received: string[] = [];
+      for (let nut of ['__proto__', 'constructor', 'hasOwnProperty']) {
+        bus.subscribe(nut, status => received.push(nut + ':' + status));
+        await bus.publishAsync(nut, NutPollStatus.Completed);
+      }
+      assert.deepEqual(received, ['__proto__:completed', 'constructor:completed', 'hasOwnProperty:completed']);
+    });
+  });
+
+  describe('eventsCrossPubSub', () => {
+    it('should deliver events published on one server to subscribers on another', async () => {
+      let sharedPubSub = new MemoryLoginEventPubSub();
+      let server1 = new LoginEventBus(sharedPubSub);
+      let server2 = new LoginEventBus(sharedPubSub);
+      let received: NutPollStatus[] = [];
+      server2.subscribe('1234', status => received.push(status));
+
+      await server1.publishAsync('1234', NutPollStatus.Completed);
+      assert.deepEqual(received, [NutPollStatus.Completed]);
+    });
+
+    it('should ignore messages it did not publish', () => {
+      let handler: (message: string) => void = () => { /* Replaced on subscribe */ };
+      let pubSub = <ILoginEventPubSub> {
+        publishAsync: () => Promise.resolve(),
+        subscribe: (h: (message: string) => void) => handler = h,
+      };
+      let bus = new LoginEventBus(pubSub);
+      let received: NutPollStatus[] = [];
+      bus.subscribe('1234', status => received.push(status));
+      handler('not json');
+      handler('{}');
+      assert.deepEqual(received, []);
+    });
+  });
+});
+
+/** Identity storage holding the login state used by SQRLLoginStatus. */
+class MockLoginStorage {
+  /** Map from original login nut to the user recorded by loginCompletedAsync(). */
+  public completedLogins: any = {};
+
+  /** Map from nut to its getLoginStatusAsync() result. */
+  public loginStatuses: any = {};
+
+  public consumedNuts: string[] = [];
+
+  public consumeCompletedLoginAsync(nut: string): Promise<any | null> {
+    this.consumedNuts.push(nut);
+    let user: any = this.completedLogins[nut] || null;
+    delete this.completedLogins[nut];
+    return Promise.resolve(user);
+  }
+
+  public getLoginStatusAsync(nut: string): Promise<LoginStatusInfo | null> {
+    return Promise.resolve(this.loginStatuses[nut] || null);
+  }
+}
+
+class MockJsonResponse {
+  public statusCode: number = 200;
+  public headers: any = {};
+  public body: any;
+  public writes: string[] = [];
+  public ended: boolean = false;
+
+  public write(chunk: string): void {
+    this.writes.push(chunk);
+  }
+
+  public end(): void {
+    this.ended = true;
+  }
+
+  /** Lets pending storage calls of an event stream complete. */
+  public waitForWritesAsync(): Promise<void> {
+    return new Promise<void>(resolve => setImmediate(resolve));
+  }
+
+  public setHeader(name: string, value: string): void {
+    this.headers[name] = value;
+  }
+
+  public send(body: string): void {
+    this.body = body;
+  }
+
+  public json(body: any): void {
+    this.body = body;
+  }
+}
+
+/** Returns a polling request for the nut, with the req.logIn() added by PassportJS and the close event. */
+function mockPollRequest(nut: string): express.Request {
+  let req: any = new events.EventEmitter();
+  req.ip = '10.0.0.1';
+  req.params = { nut: nut };
+  req.logIn = (user: any, done: (err?: Error) => void) => {
+    req.loggedInUser = user;
+    done();
+  };
+  return <express.Request> req;
+}
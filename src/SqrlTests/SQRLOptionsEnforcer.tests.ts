@@ -0,0 +1,140 @@
+// Unit test suite for SQRLOptionsEnforcer code.
+
+import { assert } from "chai";
+import * as express from 'express';
+import { Strategy } from 'passport-strategy';
+import { SQRLOptionsConfig, SQRLOptionsEnforcer, SQRLRestrictedError, SQRLRestriction, SQRLStrategy, SQRLStrategyConfig, SQRLUserOptions, SQRLUserRecord } from '../passport-sqrl';
+import { MockLogger } from '../SqrlTests/MockLogger';
+
+describe('SQRLOptionsEnforcer', () => {
+  let users: any = {
+    alice: <SQRLUserRecord> { primaryIdentityPublicKey: 'key0', useSqrlIdentityOnly: true, hardLockSqrlUse: false },
+    bob: <SQRLUserRecord> { primaryIdentityPublicKey: 'key1', useSqrlIdentityOnly: false, hardLockSqrlUse: true },
+    carol: { name: 'carol' },  // No SQRL identity
+  };
+  let findRequestUserAsync = (req: express.Request): Promise<any | null> => Promise.resolve(users[req.body.username] || null);
+
+  describe('middlewareBlocksRestrictedUsers', () => {
+    it('should pass a SQRLRestrictedError to next() only for users with the matching option', async () => {
+      let enforcer = new SQRLOptionsEnforcer(new MockLogger(), <SQRLOptionsConfig> { findRequestUserAsync: findRequestUserAsync });
+      let cases: Array<{ middleware: express.RequestHandler, username: string, restriction?: SQRLRestriction }> = [
+        { middleware: enforcer.blockSqrlOnlyUsers, username: 'alice', restriction: SQRLRestriction.SqrlOnly },
+        { middleware: enforcer.blockSqrlOnlyUsers, username: 'bob' },
+        { middleware: enforcer.blockSqrlOnlyUsers, username: 'carol' },
+        { middleware: enforcer.blockSqrlOnlyUsers, username: 'unknown' },
+        { middleware: enforcer.blockHardLockedUsers, username: 'alice' },
+        { middleware: enforcer.blockHardLockedUsers, username: 'bob', restriction: SQRLRestriction.HardLock },
+      ];
+      for (let testCase of cases) {
+        let err: any = await runMiddlewareAsync(testCase.middleware, <express.Request> <any> { body: { username: testCase.username } });
+        if (testCase.restriction) {
+          assert.instanceOf(err, SQRLRestrictedError, testCase.username);
+          assert.equal((<SQRLRestrictedError> err).restriction, testCase.restriction);
+          assert.equal((<SQRLRestrictedError> err).httpStatusCode, 403);
+        } else {
+          assert.isUndefined(err, testCase.username);
+        }
+      }
+    });
+
+    it('should default to the logged in user and read options through getUserOptionsAsync', async () => {
+      let enforcer = new SQRLOptionsEnforcer(new MockLogger(), <SQRLOptionsConfig> {
+        getUserOptionsAsync: (user: any) => Promise.resolve(<SQRLUserOptions> {
+          useSqrlIdentityOnly: false,
+          hardLockSqrlUse: !!user.sqrlHardLockSqrlUse,
+        }),
+      });
+      let err: any = await runMiddlewareAsync(enforcer.blockHardLockedUsers, <express.Request> <any> { user: { sqrlHardLockSqrlUse: true } });
+      assert.instanceOf(err, SQRLRestrictedError);
+      err = await runMiddlewareAsync(enforcer.blockHardLockedUsers, <express.Request> <any> {});
+      assert.isUndefined(err);
+    });
+  });
+
+  describe('policyDecidesRestrictedRequests', () => {
+    it('should let the policy allow a restricted request', async () => {
+      let policyCalls: SQRLRestriction[] = [];
+      let enforcer = new SQRLOptionsEnforcer(new MockLogger(), <SQRLOptionsConfig> {
+        findRequestUserAsync: findRequestUserAsync,
+        policy: (restriction: SQRLRestriction, req: express.Request, user: any): boolean => {
+          policyCalls.push(restriction);
+          return req.path === '/support/recover';
+        },
+      });
+      let err: any = await runMiddlewareAsync(enforcer.blockHardLockedUsers,
+        <express.Request> <any> { path: '/support/recover', body: { username: 'bob' } });
+      assert.isUndefined(err);
+      err = await runMiddlewareAsync(enforcer.blockHardLockedUsers, <express.Request> <any> { path: '/recover', body: { username: 'bob' } });
+      assert.instanceOf(err, SQRLRestrictedError);
+      err = await runMiddlewareAsync(enforcer.blockHardLockedUsers, <express.Request> <any> { path: '/recover', body: { username: 'carol' } });
+      assert.isUndefined(err);
+      assert.deepEqual(policyCalls, [SQRLRestriction.HardLock, SQRLRestriction.HardLock], 'Policy should only see restricted requests');
+    });
+  });
+
+  describe('restrictStrategyFailsSqrlOnlyLogins', () => {
+    it('should fail logins of sqrlonly users with 403 and leave other logins alone', async () => {
+      let enforcer = new SQRLOptionsEnforcer(new MockLogger());
+      let strategy: MockPasswordStrategy = enforcer.restrictStrategy(new MockPasswordStrategy(users));
+
+      let outcome: IStrategyOutcome = await authenticateAsync(strategy, <express.Request> <any> { body: { username: 'alice' } });
+      assert.deepEqual(outcome, { kind: 'fail', status: 403 });
+      outcome = await authenticateAsync(strategy, <express.Request> <any> { body: { username: 'bob' } });
+      assert.equal(outcome.kind, 'success');
+      assert.equal(outcome.user, users.bob);
+      outcome = await authenticateAsync(strategy, <express.Request> <any> { body: { username: 'unknown' } });
+      assert.deepEqual(outcome, { kind: 'fail', status: 401 });
+    });
+
+    it('should return SQRLStrategy unchanged', () => {
+      let sqrl = new SQRLStrategy(new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+      let authenticate = sqrl.authenticate;
+      assert.equal(new SQRLOptionsEnforcer(new MockLogger()).restrictStrategy(sqrl), sqrl);
+      assert.equal(sqrl.authenticate, authenticate);
+    });
+  });
+});
+
+/** A PassportJS strategy logging in the user named in the request body, standing in for a password strategy. */
+class MockPasswordStrategy extends Strategy {
+  public name: string = 'password';
+  private users: any;
+
+  constructor(users: any) {
+    super();
+    this.users = users;
+  }
+
+  public authenticate(req: express.Request): void {
+    let user: any = this.users[req.body.username];
+    if (user) {
+      this.success(user);
+    } else {
+      this.fail({ message: 'Unknown user' }, 401);
+    }
+  }
+}
+
+interface IStrategyOutcome {
+  kind: string;
+  status?: number;
+  user?: any;
+}
+
+/** Runs a strategy's authenticate() as PassportJS does, with the callbacks replaced, returning the one called. */
+function authenticateAsync(strategy: Strategy, req: express.Request): Promise<IStrategyOutcome> {
+  return new Promise<IStrategyOutcome>(resolve => {
+    let requestStrategy: any = Object.create(strategy);
+    requestStrategy.success = (user: any) => resolve({ kind: 'success', user: user });
+    requestStrategy.fail = (challenge: any, status: number) => resolve({ kind: 'fail', status: status });
+    requestStrategy.error = () => resolve({ kind: 'error' });
+    requestStrategy.authenticate(req);
+  });
+}
+
+/** Runs Express middleware, returning the error passed to next(). */
+function runMiddlewareAsync(middleware: express.RequestHandler, req: express.Request): Promise<any> {
+  return new Promise<any>(resolve => {
+    middleware(req, <express.Response> <any> {}, (err?: any) => resolve(err));
+  });
+}
@@ -0,0 +1,91 @@
+// Unit test suite for ISignatureVerifier implementations.
+
+import base64url from 'base64url';
+import { assert } from "chai";
+import { BodyParser, ClientInputError, ClientRequestInfo, ISignatureVerifier, NodeCryptoSignatureVerifier, TweetNaclSignatureVerifier } from '../passport-sqrl';
+import { MockSQRLClient } from './MockSQRLClient';
+
+// RFC 8032 section 7.1, TEST 2.
+const rfcSeed = Buffer.from('4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb', 'hex');
+const rfcPublicKey = Buffer.from('3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c', 'hex');
+const rfcMessage = Buffer.from('72', 'hex');
+const rfcSignature = Buffer.from(
+  '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da' +
+  '085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00', 'hex');
+
+const verifiers: Array<{ name: string, verifier: ISignatureVerifier }> = [
+  { name: 'NodeCryptoSignatureVerifier', verifier: new NodeCryptoSignatureVerifier() },
+  { name: 'TweetNaclSignatureVerifier', verifier: new TweetNaclSignatureVerifier() },
+];
+
+describe('SignatureVerifier', () => {
+  describe('mockClientKeys', () => {
+    it('should derive the RFC 8032 public key and signature from the seed', () => {
+      let keyPair = MockSQRLClient.makeKeyPair(rfcSeed);
+      assert.equal(keyPair.publicKey.toString('hex'), rfcPublicKey.toString('hex'));
+      assert.equal(MockSQRLClient.sign(rfcMessage, keyPair.privateKey).toString('hex'), rfcSignature.toString('hex'));
+    });
+  });
+
+  verifiers.forEach(testCase => {
+    describe(testCase.name, () => {
+      it('should verify the RFC 8032 test vector', () => {
+        assert.isTrue(testCase.verifier.verify(rfcMessage, rfcSignature, rfcPublicKey));
+      });
+
+      it('should reject a tampered message, signature, or key', () => {
+        let badSignature = Buffer.from(rfcSignature);
+        badSignature[10] ^= 1;  // tslint:disable-line:no-bitwise
+        let badKey = Buffer.from(rfcPublicKey);
+        badKey[0] ^= 1;  // tslint:disable-line:no-bitwise
+        assert.isFalse(testCase.verifier.verify(Buffer.from('73', 'hex'), rfcSignature, rfcPublicKey));
+        assert.isFalse(testCase.verifier.verify(rfcMessage, badSignature, rfcPublicKey));
+        assert.isFalse(testCase.verifier.verify(rfcMessage, rfcSignature, badKey));
+      });
+
+      it('should verify mock client identity and previous identity signatures', () => {
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234', /*numPreviousIdentities:*/1);
+        client.lastQueryPrevIdTried = 0;
+        let body: any = client.generatePostBody('query');
+        assert.isDefined(body.pids);
+
+        let requestInfo: ClientRequestInfo = BodyParser.parseAndValidateRequestFields(body, testCase.verifier);
+        assert.equal(requestInfo.primaryIdentityPublicKey, base64url.encode(client.primaryIdentityPublicKey));
+        assert.equal(requestInfo.previousIdentityPublicKey, base64url.encode(client.previousIdentityPublicKeys[0]));
+      });
+
+      it('should reject a mock client request signed by another identity', () => {
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        let otherClient = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        let body: any = client.generatePostBody('query');
+        body.ids = otherClient.generatePostBody('query').ids;
+        try {
+          BodyParser.parseAndValidateRequestFields(body, testCase.verifier);
+          assert.fail('Expected exception not thrown');
+        } catch (e) {
+          assert.isTrue(e instanceof ClientInputError, e.message);
+          assert.equal(e.message, 'Primary public key did not verify correctly');
+        }
+      });
+
+      it('should verify a mock client unlock request signature', () => {
+        let client = new MockSQRLClient('sqrl://foo.com/login?nut=1234');
+        let body: any = client.generatePostBody('enable');
+        let vuk = base64url.encode(client.serverVerifyUnlockPublicKey);
+        assert.isTrue(BodyParser.verifyUnlockRequestSignature(body, vuk, testCase.verifier));
+        assert.isFalse(BodyParser.verifyUnlockRequestSignature(body, base64url.encode(client.primaryIdentityPublicKey), testCase.verifier));
+      });
+    });
+  });
+
+  describe('verifySignature', () => {
+    it('should reject signatures and keys of the wrong length without calling the verifier', () => {
+      let calls = 0;
+      let verifier = <ISignatureVerifier> { verify: () => { calls++; return true; } };
+      assert.isFalse(BodyParser.verifySignature(verifier, rfcMessage, rfcSignature.slice(1), rfcPublicKey));
+      assert.isFalse(BodyParser.verifySignature(verifier, rfcMessage, rfcSignature, Buffer.concat([rfcPublicKey, Buffer.alloc(1)])));
+      assert.equal(calls, 0);
+      assert.isTrue(BodyParser.verifySignature(verifier, rfcMessage, rfcSignature, rfcPublicKey));
+    });
+  });
+});
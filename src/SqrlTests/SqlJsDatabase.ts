@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as initSqlJs from 'sql.js';
+import { ISqlDatabase } from '../passport-sqrl';
+
+/**
+ * An ISqlDatabase over the sql.js WebAssembly build of SQLite, kept in a local database file
+ * that is written after each committed change. Set failOnSql to make matching statements
+ * throw, for testing transaction rollback.
+ */
+export class SqlJsDatabase implements ISqlDatabase {
+  public static async openAsync(filePath: string): Promise<SqlJsDatabase> {
+    let sqlJs: initSqlJs.SqlJsStatic = await initSqlJs();
+    let data: Buffer | null = fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+    return new SqlJsDatabase(new sqlJs.Database(data), filePath);
+  }
+
+  public failOnSql?: RegExp;
+  private db: initSqlJs.Database;
+  private filePath: string;
+  private inTransaction: boolean = false;
+
+  private constructor(db: initSqlJs.Database, filePath: string) {
+    this.db = db;
+    this.filePath = filePath;
+  }
+
+  public runAsync(sql: string, params?: any[]): Promise<number> {
+    this.checkFailure(sql);
+    this.db.run(sql, params);
+    let changes: number = this.db.getRowsModified();
+    if (/^BEGIN/.test(sql)) {
+      this.inTransaction = true;
+    } else if (/^(COMMIT|ROLLBACK)/.test(sql)) {
+      this.inTransaction = false;
+    }
+    if (!this.inTransaction) {
+      fs.writeFileSync(this.filePath, Buffer.from(this.db.export()));
+    }
+    return Promise.resolve(changes);
+  }
+
+  public async getAsync(sql: string, params?: any[]): Promise<any | undefined> {
+    return (await this.allAsync(sql, params))[0];
+  }
+
+  public allAsync(sql: string, params?: any[]): Promise<any[]> {
+    this.checkFailure(sql);
+    let statement: initSqlJs.Statement = this.db.prepare(sql, params);
+    let rows: any[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    statement.free();
+    return Promise.resolve(rows);
+  }
+
+  public close(): void {
+    this.db.close();
+  }
+
+  private checkFailure(sql: string): void {
+    if (this.failOnSql && this.failOnSql.test(sql)) {
+      throw new Error('Injected failure for ' + sql);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+// Unit test suite for SqliteSQRLIdentityStorage code, run against a local SQLite file.
+
+import { assert } from "chai";
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthCompletionInfo, AuthenticateAsyncResult, ClientRequestInfo, LoginStatusInfo, MemorySQRLIdentityStorage, NutInfo, SqliteIdentityStorageConfig, SqliteSQRLIdentityStorage, SQRLApiRequest, SQRLEngine, SQRLStores, SQRLStrategyConfig, SQRLUserRecord, TIFFlags, UrlAndNut } from '../passport-sqrl';
+import { MockLogger } from '../SqrlTests/MockLogger';
+import { MockSQRLClient } from './MockSQRLClient';
+import { SqlJsDatabase } from './SqlJsDatabase';
+
+describe('SqliteSQRLIdentityStorage', () => {
+  let dbPath: string;
+  let db: SqlJsDatabase;
+
+  beforeEach(async () => {
+    dbPath = path.join(os.tmpdir(), `passport-sqrl-${process.pid}-${Date.now()}.sqlite`);
+    db = await SqlJsDatabase.openAsync(dbPath);
+  });
+
+  afterEach(() => {
+    db.close();
+    if (fs.existsSync(dbPath)) {
+      fs.unlinkSync(dbPath);
+    }
+  });
+
+  describe('schemaMigratedOnceAndPersisted', () => {
+    it('should create the schema in the database file and keep users across reopening', async () => {
+      let storage = new SqliteSQRLIdentityStorage(db);
+      await storage.migrateAsync();
+      assert.equal((await db.getAsync('PRAGMA user_version')).user_version, SqliteSQRLIdentityStorage.schemaVersion);
+      await storage.identAsync(<ClientRequestInfo> { primaryIdentityPublicKey: 'key0', useSqrlIdentityOnly: true }, <NutInfo> {});
+      db.close();
+
+      db = await SqlJsDatabase.openAsync(dbPath);
+      storage = new SqliteSQRLIdentityStorage(db);
+      await storage.migrateAsync();
+      let user = <SQRLUserRecord> await storage.getUserAsync('key0');
+      assert.isTrue(user.useSqrlIdentityOnly);
+      assert.isFalse(user.hardLockSqrlUse);
+    });
+
+    it('should refuse a database from a newer version', async () => {
+      await db.runAsync(`PRAGMA user_version = ${SqliteSQRLIdentityStorage.schemaVersion + 1}`);
+      let storage = new SqliteSQRLIdentityStorage(db);
+      try {
+        await storage.queryAsync(<ClientRequestInfo> { primaryIdentityPublicKey: 'key0' }, <NutInfo> {});
+        assert.fail('Expected an error');
+      } catch (err) {
+        assert.include(err.message, 'is newer than supported version');
+      }
+    });
+  });
+
+  describe('nutConsumedOnceAndExpired', () => {
+    it('should report the first consumer of a nut and forget expired nuts', async () => {
+      let storage = new SqliteSQRLIdentityStorage(db, <SqliteIdentityStorageConfig> { nutTimeToLiveSeconds: 0.05 });
+      let urlAndNut = new UrlAndNut('sqrl://foo.com/login?nut=1234', '1234', '1234');
+      urlAndNut.requesterIp = '10.1.2.3';
+      await storage.nutIssuedToClientAsync(urlAndNut);
+      let nutInfo = <NutInfo> await storage.consumeNutAsync('1234', 'request1');
+      assert.isUndefined(nutInfo.consumedByRequest);
+      assert.equal(nutInfo.requesterIp, '10.1.2.3');
+      assert.equal((<Date> nutInfo.issuedAt).getTime(), urlAndNut.issuedAt.getTime());
+      assert.equal((<NutInfo> await storage.consumeNutAsync('1234', 'request2')).consumedByRequest, 'request1');
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+      assert.isNull(await storage.consumeNutAsync('1234', 'request3'));
+      await storage.nutIssuedToClientAsync(new UrlAndNut('sqrl://foo.com/login?nut=5678', '5678', '5678'));
+      assert.equal((await db.getAsync('SELECT COUNT(*) AS count FROM nuts')).count, 1);
+    });
+  });
+
+  describe('loginLifecycleThroughEngine', () => {
+    it('should log in once, refuse logins while disabled, and forget removed identities', async () => {
+      let storage = new SqliteSQRLIdentityStorage(db);
+      let engine = new SQRLEngine(storage, new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+      let urlAndNut: UrlAndNut = engine.getSqrlUrl(<SQRLApiRequest> {});
+      await storage.nutIssuedToClientAsync(urlAndNut);
+      let client = new MockSQRLClient(urlAndNut.url);
+      let sendAsync = async (cmd: string): Promise<TIFFlags> => {
+        let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> {
+          method: 'POST',
+          params: client.generatePostBody(cmd),
+        });
+        return client.parseServerBody(result.body || '').tifValues;
+      };
+
+      assert.equal(await sendAsync('query'), 0);
+      assert.equal(await sendAsync('ident'), 0);
+      let user = <SQRLUserRecord> await storage.consumeCompletedLoginAsync(urlAndNut.nutString);
+      assert.isNotNull(user.serverVerifyUnlockPublicKey);
+      assert.isNull(await storage.consumeCompletedLoginAsync(urlAndNut.nutString));
+
+      // tslint:disable:no-bitwise
+      assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+      assert.equal(await sendAsync('ident'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled | TIFFlags.CommandFailed);
+      assert.isTrue((<LoginStatusInfo> await storage.getLoginStatusAsync(urlAndNut.nutString)).identityDisabled);
+      assert.equal(await sendAsync('enable'), TIFFlags.CurrentIDMatch);
+      assert.equal(await sendAsync('disable'), TIFFlags.CurrentIDMatch | TIFFlags.IDDisabled);
+      assert.equal(await sendAsync('remove'), 0);
+      assert.isNull(await storage.getUserAsync(user.primaryIdentityPublicKey));
+      assert.equal(await sendAsync('ident'), TIFFlags.CommandFailed);
+      // tslint:enable:no-bitwise
+    });
+  });
+
+  describe('loginRecordedForSeparateIdentityStore', () => {
+    it('should return the user from another identity store as the completed login', async () => {
+      let storage = new SqliteSQRLIdentityStorage(db);
+      let identityStore = new MemorySQRLIdentityStorage();
+      let engine = new SQRLEngine(new SQRLStores(storage, identityStore), new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+      let urlAndNut: UrlAndNut = engine.getSqrlUrl(<SQRLApiRequest> {});
+      await storage.nutIssuedToClientAsync(urlAndNut);
+      let client = new MockSQRLClient(urlAndNut.url);
+      for (let cmd of ['query', 'ident']) {
+        let result: AuthenticateAsyncResult = await engine.handleRequestAsync(<SQRLApiRequest> {
+          method: 'POST',
+          params: client.generatePostBody(cmd),
+        });
+        client.parseServerBody(result.body || '');
+      }
+
+      let user = <SQRLUserRecord> await storage.consumeCompletedLoginAsync(urlAndNut.nutString);
+      assert.isNotNull(user);
+      assert.deepEqual(user, JSON.parse(JSON.stringify(await identityStore.getUserAsync(user.primaryIdentityPublicKey))));
+      assert.isNull(await storage.getUserAsync(user.primaryIdentityPublicKey), 'User should only be in the identity store');
+      assert.isNull(await storage.consumeCompletedLoginAsync(urlAndNut.nutString));
+    });
+  });
+
+  describe('rekeyIsTransactional', () => {
+    it('should keep four distinct previous keys, and leave the user unchanged when a rekey fails', async () => {
+      let storage = new SqliteSQRLIdentityStorage(db);
+      await storage.identAsync(<ClientRequestInfo> { primaryIdentityPublicKey: 'key0', serverVerifyUnlockPublicKey: 'vuk0' }, <NutInfo> {});
+      let rekeyAsync = (i: number): Promise<AuthCompletionInfo> => storage.identAsync(<ClientRequestInfo> {
+        previousIdentityPublicKey: 'key' + (i - 1),
+        primaryIdentityPublicKey: 'key' + i,
+        serverVerifyUnlockPublicKey: 'vuk' + i,
+      }, <NutInfo> {});
+      for (let i = 1; i <= 5; i++) {
+        assert.equal((await rekeyAsync(i)).tifValues, TIFFlags.PreviousIDMatch);
+      }
+      let user = <SQRLUserRecord> await storage.getUserAsync('key2');
+      assert.equal(user.primaryIdentityPublicKey, 'key5');
+      assert.deepEqual(user.previousIdentityPublicKeys, ['key4', 'key3', 'key2', 'key1']);
+      assert.isNull(await storage.getUserAsync('key0'));
+
+      db.failOnSql = /^UPDATE users SET primary_identity_key/;
+      try {
+        await rekeyAsync(6);
+        assert.fail('Expected an error');
+      } catch (err) {
+        assert.include(err.message, 'Injected failure');
+      }
+      db.failOnSql = undefined;
+      user = <SQRLUserRecord> await storage.getUserAsync('key5');
+      assert.equal(user.primaryIdentityPublicKey, 'key5');
+      assert.deepEqual(user.previousIdentityPublicKeys, ['key4', 'key3', 'key2', 'key1']);
+      assert.equal(await storage.getServerVerifyUnlockKeyAsync('key5'), 'vuk5');
+
+      // Rekeying back to a key still in the history moves it out of the history.
+      await storage.identAsync(<ClientRequestInfo> { previousIdentityPublicKey: 'key5', primaryIdentityPublicKey: 'key3' }, <NutInfo> {});
+      user = <SQRLUserRecord> await storage.getUserAsync('key5');
+      assert.equal(user.primaryIdentityPublicKey, 'key3');
+      assert.deepEqual(user.previousIdentityPublicKeys, ['key5', 'key4', 'key2', 'key1']);
+    });
+  });
+});
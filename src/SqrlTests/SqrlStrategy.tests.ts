@@ -1,10 +1,10 @@
 // Unit test suite for SQRLStrategy code.
 
 import { assert } from "chai";
+import * as crypto from 'crypto';
 import * as express from 'express';
-import { AuthCompletionInfo, AuthenticateAsyncResult, ClientRequestInfo, SQRLStrategy, SQRLStrategyConfig, TIFFlags, UrlAndNut } from '../passport-sqrl';
+import { EncryptedNutCodec, ISQRLIdentityStorage, MemoryCpsTokenStore, SQRLStrategy, SQRLStrategyConfig, SqrlUrlFactory } from '../passport-sqrl';
 import { MockLogger } from '../SqrlTests/MockLogger';
-import { MockSQRLClient, ServerResponseInfo } from './MockSqrlClient';
 
 describe('SQRLStrategy', () => {
   describe('strategyName', () => {
@@ -16,4 +16,109 @@ describe('SQRLStrategy', () => {
       assert.equal('sqrl', sqrl.name);
     });
   });
+
+  describe('completedLoginSucceedsOnce', () => {
+    it('should fail before the login completes, then succeed once', async () => {
+      let completedLogins: any = {};
+      let sqrl = new SQRLStrategy(new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' },
+        mockCompletedLoginStorage(completedLogins));
+
+      let outcome: IStrategyOutcome = await authenticateAsync(sqrl, <express.Request> <any> { params: { nut: '1234' } });
+      assert.deepEqual(outcome, { kind: 'fail', status: 401 });
+
+      completedLogins['1234'] = { name: 'bob' };
+      outcome = await authenticateAsync(sqrl, <express.Request> <any> { params: {}, query: { nut: '1234' } });
+      assert.equal(outcome.kind, 'success');
+      assert.equal(outcome.user.name, 'bob');
+
+      outcome = await authenticateAsync(sqrl, <express.Request> <any> { params: { nut: '1234' } });
+      assert.deepEqual(outcome, { kind: 'fail', status: 401 }, 'A completed login should authenticate only once');
+    });
+  });
+
+  describe('missingNutFails', () => {
+    it('should fail with HTTP status 400', async () => {
+      let sqrl = new SQRLStrategy(new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' },
+        mockCompletedLoginStorage({}));
+
+      let outcome: IStrategyOutcome = await authenticateAsync(sqrl, <express.Request> <any> { params: {}, body: {}, query: {} });
+      assert.deepEqual(outcome, { kind: 'fail', status: 400 });
+    });
+  });
+
+  describe('missingIdentityStorageErrors', () => {
+    it('should report an error rather than failing the login', async () => {
+      let sqrl = new SQRLStrategy(new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com' });
+
+      let outcome: IStrategyOutcome = await authenticateAsync(sqrl, <express.Request> <any> { params: { nut: '1234' } });
+      assert.equal(outcome.kind, 'error');
+    });
+  });
+
+  describe('cpsTokenRedeemedOnce', () => {
+    it('should log in with an unexpired token once, without identity storage', async () => {
+      let tokenStore = new MemoryCpsTokenStore();
+      await tokenStore.storeAsync('goodToken', { name: 'bob' }, new Date(Date.now() + 60000));
+      await tokenStore.storeAsync('oldToken', { name: 'alice' }, new Date(Date.now() - 1000));
+      let sqrl = new SQRLStrategy(new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com', cpsTokenStore: tokenStore });
+
+      let outcome: IStrategyOutcome = await authenticateAsync(sqrl, <express.Request> <any> { query: { cpsToken: 'goodToken' } });
+      assert.equal(outcome.kind, 'success');
+      assert.equal(outcome.user.name, 'bob');
+
+      outcome = await authenticateAsync(sqrl, <express.Request> <any> { query: { cpsToken: 'goodToken' } });
+      assert.deepEqual(outcome, { kind: 'fail', status: 401 }, 'A token should log in only once');
+      outcome = await authenticateAsync(sqrl, <express.Request> <any> { query: { cpsToken: 'oldToken' } });
+      assert.deepEqual(outcome, { kind: 'fail', status: 401 }, 'An expired token should fail');
+    });
+  });
+
+  describe('encryptedFollowUpNutResolvesToOriginal', () => {
+    it('should look up the completed login by the original QR code nut', async () => {
+      let key = crypto.randomBytes(32);
+      let codec = new EncryptedNutCodec(key);
+      let qrCodeNut: string = SqrlUrlFactory.nutToString(codec.createQrCodeNut('10.0.0.1'));
+      let followUpNut: string = SqrlUrlFactory.nutToString(
+        codec.createFollowUpNut('10.0.0.1', EncryptedNutCodec.responseDigest('ver=1\r\n', ''), qrCodeNut));
+      let completedLogins: any = {};
+      completedLogins[qrCodeNut] = { name: 'bob' };
+      let sqrl = new SQRLStrategy(new MockLogger(), <SQRLStrategyConfig> { localDomainName: 'domain.com', encryptedNutKey: key },
+        mockCompletedLoginStorage(completedLogins));
+
+      let outcome: IStrategyOutcome = await authenticateAsync(sqrl, <express.Request> <any> { params: { nut: 'garbage' } });
+      assert.deepEqual(outcome, { kind: 'fail', status: 401 });
+
+      outcome = await authenticateAsync(sqrl, <express.Request> <any> { params: { nut: followUpNut } });
+      assert.equal(outcome.kind, 'success');
+      assert.equal(outcome.user.name, 'bob');
+    });
+  });
 });
+
+interface IStrategyOutcome {
+  kind: string;
+  status?: number;
+  user?: any;
+}
+
+/** Runs SQRLStrategy.authenticate() with the PassportJS callbacks replaced, returning the one called. */
+function authenticateAsync(sqrl: SQRLStrategy, req: express.Request): Promise<IStrategyOutcome> {
+  return new Promise<IStrategyOutcome>(resolve => {
+    let strategy: any = Object.create(sqrl);
+    strategy.success = (user: any) => resolve({ kind: 'success', user: user });
+    strategy.fail = (challenge: any, status: number) => resolve({ kind: 'fail', status: status });
+    strategy.error = () => resolve({ kind: 'error' });
+    strategy.authenticate(req);
+  });
+}
+
+/** Returns identity storage consuming completed logins from a map of nut to user. */
+function mockCompletedLoginStorage(completedLogins: any): ISQRLIdentityStorage {
+  return <ISQRLIdentityStorage> <any> {
+    consumeCompletedLoginAsync: (nut: string): Promise<any | null> => {
+      let user: any = completedLogins[nut] || null;
+      delete completedLogins[nut];
+      return Promise.resolve(user);
+    },
+  };
+}
@@ -2,17 +2,14 @@
 
 import base64url from 'base64url';
 import * as crypto from 'crypto';
-import * as ed25519 from 'ed25519';
 import * as express from 'express';
+import * as http from 'http';
 import { AuthenticateOptions } from 'passport';
 import { Strategy } from 'passport-strategy';
+import * as querystring from 'querystring';
+import * as nacl from 'tweetnacl';
 import * as urlLib from 'url';
 
-// TODO: Support default implementation of encrypted nut and support TIFFlags.IPAddressesMatch
-// TODO: Support disable, enable, remove
-// TODO: Support suk client request and server validation
-// TODO: Add urs= field
-// TODO: Add UT for rekey request
 // TODO: Test rekey against SQRL desktop implementation
 
 /** Definitions for the Transaction Information Flag values specified in the SQRL specification. */
@@ -68,16 +65,57 @@ export class AuthCompletionInfo {
   public tifValues: TIFFlags;
 
   /**
-   * The client's Session Unlock Key if requested by the client
-   * sending a 'suk' option header (ClientRequestInfo.returnSessionUnlockKey)
+   * The client's stored Session Unlock Key, sent in the suk= response field when requested by
+   * the client sending a 'suk' option header (ClientRequestInfo.returnSessionUnlockKey), and
+   * whenever tifValues has TIFFlags.PreviousIDMatch or TIFFlags.IDDisabled, since the client
+   * then needs it to sign the rekeying 'ident' or the 'enable' or 'remove'.
    */
   public sessionUnlockKey?: string;
 
+  /**
+   * Optional value to send to the client in the sin= response field on a 'query' or 'ident'
+   * command, asking the client to return a secret index derived from this value and its
+   * identity keys in the ins= (and, if a previous identity is presented, pins=) field of
+   * its next request. The returned values arrive in ClientRequestInfo.indexSecret and
+   * previousIndexSecret, along with this value in ClientRequestInfo.secretIndex.
+   * The same value always produces the same secret index for a given identity, so a site
+   * can use it e.g. to derive per-user encryption keys. Must not contain CR or LF characters.
+   */
+  public secretIndex?: string;
+
+  /**
+   * Optional dialog to present to the user, sent in the ask= response field.
+   * The user's button selection arrives in ClientRequestInfo.serverAskResponseSelection
+   * on the client's next request, along with this value in ClientRequestInfo.serverAsk.
+   */
+  public ask?: AskMessage;
+
   constructor() {
     this.tifValues = 0;
   }
 }
 
+/**
+ * A dialog the server asks the SQRL client to present to the user, with up to two buttons.
+ * See the ask= field at https://www.grc.com/sqrl/semantics.htm .
+ */
+export class AskMessage {
+  /** The main message text of the dialog. */
+  public message: string = '';
+
+  /** Optional text for button 1. When absent the client presents only a dismissal button. */
+  public button1Label?: string;
+
+  /** Optional URL the client navigates to if the user selects button 1. Requires button1Label. */
+  public button1Url?: string;
+
+  /** Optional text for button 2. Requires button1Label. */
+  public button2Label?: string;
+
+  /** Optional URL the client navigates to if the user selects button 2. Requires button2Label. */
+  public button2Url?: string;
+}
+
 /**
  * Log levels for ILogger.
  */
@@ -105,10 +143,15 @@ export interface ILogger {
 }
 
 /**
- * The behavior that must be implemented by the next-higher layer that provides
- * identity storage.
+ * Short-lived storage for issued nuts and the logins they lead to, best kept in a
+ * distributed cache with expiry (e.g. Redis). Pass it with an ISqrlIdentityStore in
+ * SQRLStores, or implement both in one ISQRLIdentityStorage.
+ *
+ * Errors thrown from these methods are returned to the client as TIFFlags.TransientError,
+ * asking it to retry with a new nut, unless they are SQRLError subclasses like
+ * BadIDAssociationError, which are returned with their own TIF values.
  */
-export interface ISQRLIdentityStorage {
+export interface INutStore {
   /**
    * Stores a nut issued to a client, along with an optional reference to a
    * predecessor nut value originally presented in a QR code to a user.
@@ -131,9 +174,9 @@ export interface ISQRLIdentityStorage {
    *    option, as the app cannot redirect the browser. For this case, a typical
    *    site implementation is to track recent nut values and have a logon page
    *    poll an ajax REST endpoint seeing if the nut was logged in. In that case
-   *    the site logs the browser on using an explicit PassportJS res.login()
-   *    call to return the user profile reference in the site cookie. See the
-   *    /pollNut route in the demo site in the passport-sqrl repo.
+   *    the site logs the browser on using SQRLLoginStatus or SQRLStrategy, which
+   *    find the login through loginCompletedAsync() and consumeCompletedLoginAsync().
+   *    See the /pollNut route in the demo site in the passport-sqrl repo.
    * 
    * Because the SQRL API typically involves multiple round trips to the server
    * (or server cluster behind a VIP) and does not fit within the single round
@@ -143,18 +186,95 @@ export interface ISQRLIdentityStorage {
    * 
    * The implementation should store this information in a rapid, distributed
    * lookup storage system like a cache layer (e.g. Redis), with a limited
-   * time-to-live value (e.g. 12 hours) after which the nut is forgotten.
+   * time-to-live value after which the nut is forgotten. SQRLEngine rejects nuts
+   * older than SQRLStrategyConfig.qrCodeNutMaxAgeSeconds or followUpNutMaxAgeSeconds
+   * itself, so the time-to-live only needs to exceed these ages.
    * It should also store any known user profile references along with this
-   * information. For a sample implementation see the in-memory NeDB
-   * implementation in the demo site in the pasport-sqrl Git repo.
+   * information. For a reference implementation see MemorySQRLIdentityStorage.
+   * 
+   * The urlAndNut.url, serverResponseBody, requesterIp, and issuedAt values must be stored
+   * with the nut and returned in the NutInfo from consumeNutAsync(). The client
+   * echoes the url or serverResponseBody back in its server= field, and requests where that
+   * value does not exactly match are rejected with TIFFlags.ClientFailure. The
+   * requesterIp is compared with the SQRL client's IP to return TIFFlags.IPAddressesMatch.
+   * The issuedAt time is used to reject expired nuts.
+   * 
+   * When SQRLStrategyConfig.encryptedNutKey is configured the nut itself carries
+   * this information, and SQRLEngine does not call this method or consumeNutAsync()
+   * for API calls.
    */
   nutIssuedToClientAsync(urlAndNut: UrlAndNut, originalLoginNut?: string): Promise<void>;
 
   /**
-   * Retrieves stored information about a nut value.
-   * See comments on nutIssuedToClientAsync() for more details.
+   * Atomically marks an issued nut as used by a client request and retrieves its stored
+   * information. See comments on nutIssuedToClientAsync() for more details.
+   *
+   * Each nut may be used once. The first call for a nut must record requestFingerprint
+   * with the nut and return the NutInfo without NutInfo.consumedByRequest set. Later calls
+   * must leave the record unchanged and return the NutInfo with consumedByRequest set to the
+   * fingerprint recorded by the first call. When called concurrently for the same nut, only
+   * one call may observe the nut as unused, e.g. using a conditional update in the database.
+   * Returns null if the nut is unknown or has expired.
+   *
+   * SQRLEngine rejects requests presenting a used nut, except for an exact retry of an
+   * 'ident' request, which is allowed under the idempotency rules on identAsync().
+   */
+  consumeNutAsync(nut: string, requestFingerprint: string): Promise<NutInfo | null>;
+
+  /**
+   * Called after a successful 'ident' command to record the logged in user against the
+   * original QR-code nut of the login, so that SQRLStrategy can log in the browser that
+   * displayed the QR code. Called again with the same values if the client retries.
+   * @param originalLoginNut The nut from the QR code or login link.
+   * @param user The AuthCompletionInfo.user value returned from identAsync().
+   */
+  loginCompletedAsync(originalLoginNut: string, user: any): Promise<void>;
+
+  /**
+   * Atomically retrieves and clears the user recorded by loginCompletedAsync() for a login,
+   * so that each completed SQRL login authenticates one browser request. Returns null if
+   * the login has not completed, was already consumed, or has expired. The nut is normally
+   * the original QR-code nut, but may be a later nut in its lineage, which the implementation
+   * resolves through the originalLoginNut stored by nutIssuedToClientAsync(). With encrypted
+   * nuts SQRLStrategy resolves the lineage itself and always passes the original nut.
+   */
+  consumeCompletedLoginAsync(nut: string): Promise<any | null>;
+
+  /**
+   * Called when a 'query' or 'ident' for a login returns TIFFlags.IDDisabled, so that
+   * SQRLLoginStatus can tell the login page that the user's identity is disabled.
+   * @param originalLoginNut The nut from the QR code or login link.
+   */
+  identityDisabledAtLoginAsync(originalLoginNut: string): Promise<void>;
+
+  /**
+   * Returns the state of a login for SQRLLoginStatus, without consuming it, or null if the
+   * login is unknown or has been forgotten. As with consumeCompletedLoginAsync() the nut may
+   * be a later nut in the lineage of the login, and is the original nut with encrypted nuts.
+   */
+  getLoginStatusAsync(nut: string): Promise<LoginStatusInfo | null>;
+}
+
+/**
+ * Durable storage for SQRL identities and the users they log in, normally the site's user
+ * database. Pass it with an INutStore in SQRLStores, or implement both in one
+ * ISQRLIdentityStorage.
+ *
+ * Errors thrown from these methods are handled as for INutStore.
+ */
+export interface ISqrlIdentityStore {
+  /**
+   * Returns the Server Verify Unlock Key (the vuk= value received in
+   * ClientRequestInfo.serverVerifyUnlockPublicKey when the identity was first
+   * associated) stored for the user registered under the given identity public key,
+   * or null if no user is registered under that key.
+   * 
+   * Used to verify the client's Unlock Request Signature (urs=), which the SQRL
+   * identity lock protocol requires for 'enable' and 'remove' commands and for
+   * an 'ident' that replaces a previous identity key.
+   * See https://www.grc.com/sqrl/idlock.htm .
    */
-  getNutInfoAsync(nut: string): Promise<NutInfo | null>;
+  getServerVerifyUnlockKeyAsync(identityPublicKey: string): Promise<string | null>;
 
   /**
    * Called on a SQRL client call to verify access, once the client message
@@ -174,6 +294,11 @@ export interface ISQRLIdentityStorage {
    * 
    * If the user profile has previously been disabled, no record updates should be
    * performed and TIFFlags.IDDisabled should be set in AuthCompletionInfo.tifValues.
+   *
+   * A client with more than one previous identity presents them one per 'query', so a
+   * previousIdentityPublicKey that is unknown here is not an error. Set
+   * AuthCompletionInfo.sessionUnlockKey when requested or when setting
+   * TIFFlags.PreviousIDMatch or TIFFlags.IDDisabled.
    */
   queryAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo>;
 
@@ -215,7 +340,8 @@ export interface ISQRLIdentityStorage {
 
   /**
    * Called on a SQRL client call to enable a SQRL identity that was previously
-   * disabled, once the client message signature(s) have been validated.
+   * disabled, once the client message signature(s), including the urs= Unlock Request
+   * Signature, have been validated.
    * 
    * This method should act in an idempotent manner with respect to enabling:
    * it should allow multiple enable calls without error, e.g. if the account is
@@ -226,7 +352,7 @@ export interface ISQRLIdentityStorage {
 
   /**
    * Called on a SQRL client call to remove a SQRL identity, once the client message
-   * signature(s) have been validated. The storage layer should delete (or,
+   * signature(s), including the urs= Unlock Request Signature, have been validated. The storage layer should delete (or,
    * depending on site schema and old record storage model, mark as hidden)
    * the related user record and prevent future logins using the primary and,
    * if specified, previous identity public keys presented.
@@ -235,21 +361,80 @@ export interface ISQRLIdentityStorage {
 }
 
 /**
- * ExpressJS middleware for the SQRL API.
- * Because SQRL does not use the HTTP Authenticate header in its data flow,
- * this handler is intended to be attached to a SQRL-specific route, e.g. '/sqrl',
- * that is not hooked into PassportJS. See the sample site in the passport-sqrl repo.
+ * The behavior that must be implemented by the next-higher layer that provides
+ * identity storage: an INutStore and an ISqrlIdentityStore in one object.
  */
-export class SQRLExpress {
-  private identityStorage: ISQRLIdentityStorage;
+export interface ISQRLIdentityStorage extends INutStore, ISqrlIdentityStore {
+}
+
+/** A separate INutStore and ISqrlIdentityStore, passed to SQRLEngine and its adapters in place of an ISQRLIdentityStorage. */
+export class SQRLStores {
+  /** Uses a single ISQRLIdentityStorage object as both stores. */
+  public static fromIdentityStorage(identityStorage: ISQRLIdentityStorage): SQRLStores {
+    return new SQRLStores(identityStorage, identityStorage);
+  }
+
+  public nutStore: INutStore;
+  public identityStore: ISqrlIdentityStore;
+
+  constructor(nutStore: INutStore, identityStore: ISqrlIdentityStore) {
+    this.nutStore = nutStore;
+    this.identityStore = identityStore;
+  }
+}
+
+/**
+ * A transport-neutral description of a SQRL API or login page request, created by the
+ * web framework adapters (SQRLExpress, SQRLKoa, SQRLFastify, SQRLNodeHttp) for SQRLEngine.
+ */
+export class SQRLApiRequest {
+  /** The HTTP method, e.g. 'POST'. */
+  public method: string = 'POST';
+
+  /**
+   * The request fields, if already parsed by the web framework: the urlencoded body fields
+   * for POST, or the query string fields for GET. A string or Buffer is treated as the raw
+   * urlencoded body.
+   */
+  public params?: any;
+
+  /** When params is undefined, reads the raw request body, failing if it exceeds maxBytes. */
+  public readBodyAsync?: (maxBytes: number) => Promise<Buffer>;
+
+  /** The Content-Type header, checked when the raw body is parsed. */
+  public contentType?: string;
+
+  /** The requester IP address as reported by the web framework. See SQRLStrategyConfig.getRequesterIp. */
+  public requesterIp?: string;
+
+  /**
+   * The web framework's native request object, passed to the SQRLStrategyConfig.nutGenerator
+   * and getRequesterIp callbacks.
+   */
+  public nativeRequest?: any;
+}
+
+/**
+ * The framework-independent SQRL API implementation: nut management, request validation,
+ * command dispatch, and response encoding. Web framework adapters convert their native
+ * requests to SQRLApiRequest and write out the AuthenticateAsyncResult. Use an adapter
+ * (SQRLExpress, SQRLKoa, SQRLFastify, SQRLNodeHttp), or this class directly for other transports.
+ */
+export class SQRLEngine {
+  private nutStore: INutStore;
   private log: ILogger;
   private config: SQRLStrategyConfig;
   private urlFactory: SqrlUrlFactory;
-  private nutGenerator: (req: express.Request) => string | Buffer;
+  private nutGenerator: (request: SQRLApiRequest) => string | Buffer;
+  private nutCodec?: EncryptedNutCodec;
+  private protocolHandlers: { [version: number]: ISQRLProtocolHandler } = {};
+  private supportedVersions: number[];
+  private rateLimiter: RateLimiter;
 
   /**
-   * Creates a new SQRL passport strategy instance.
-   * @param identityStorage: Provides an identity storage implementation for calls from the SQRL layer.
+   * Creates a new SQRL API engine.
+   * @param storage: Provides the nut and identity storage for calls from the SQRL layer, either
+   *   as one ISQRLIdentityStorage or as an INutStore and ISqrlIdentityStore in SQRLStores.
    * @param log ILogger implementation for logging output. Allowed to be undefined/null.
    *   Errors are used for true errors in execution. Warnings are used for recoverable
    *   issues, e.g. errors caused by data from the network. Debug is for moderate
@@ -258,10 +443,11 @@ export class SQRLExpress {
    * @param config Configuration settings for this instance.
    */
   constructor(
-      identityStorage: ISQRLIdentityStorage,
+      storage: ISQRLIdentityStorage | SQRLStores,
       log: ILogger,
       config: SQRLStrategyConfig) {
-    this.identityStorage = identityStorage;
+    let stores: SQRLStores = storage instanceof SQRLStores ? storage : SQRLStores.fromIdentityStorage(storage);
+    this.nutStore = stores.nutStore;
     this.log = log;
     this.config = config;
 
@@ -271,11 +457,27 @@ export class SQRLExpress {
         config.urlPath,
         config.domainExtension);
 
-    if (!config.nutGenerator) {
+    if (config.encryptedNutKey) {
+      if (config.nutGenerator) {
+        throw new Error('SQRLStrategyConfig may specify either nutGenerator or encryptedNutKey, not both');
+      }
+      let nutCodec = new EncryptedNutCodec(config.encryptedNutKey);
+      this.nutCodec = nutCodec;
+      this.nutGenerator = (request: SQRLApiRequest) => nutCodec.createQrCodeNut(this.getRequesterIp(request));
+    } else if (!config.nutGenerator) {
       this.nutGenerator = this.generateRandomNut;
     } else {
-      this.nutGenerator = config.nutGenerator;
+      let nutGenerator = config.nutGenerator;
+      this.nutGenerator = (request: SQRLApiRequest) => nutGenerator(request.nativeRequest);
     }
+
+    this.protocolHandlers[1] = new SQRLProtocolV1Handler(stores.identityStore, log, config);
+    (config.protocolHandlers || []).forEach(handler => {
+      this.protocolHandlers[handler.protocolVersion] = handler;
+    });
+    this.supportedVersions = Object.keys(this.protocolHandlers).map(Number).sort((a, b) => a - b);
+
+    this.rateLimiter = new RateLimiter(config.rateLimits || new RateLimitConfig(), log);
   }
 
   /**
@@ -283,120 +485,148 @@ export class SQRLExpress {
    * registration for the external app login flow. The URL should be passed though a
    * QR-Code generator to produce the SQRL login QR for the client.
    */
-  public getSqrlUrl(req: express.Request): UrlAndNut {
-    let nut: string | Buffer = this.nutGenerator(req);
+  public getSqrlUrl(request: SQRLApiRequest): UrlAndNut {
+    let nut: string | Buffer = this.nutGenerator(request);
     let nutString = SqrlUrlFactory.nutToString(nut);
-    return new UrlAndNut(this.urlFactory.create(nutString), nut, nutString);
+    let urlAndNut = new UrlAndNut(this.urlFactory.create(nutString), nut, nutString);
+    urlAndNut.requesterIp = this.getRequesterIp(request);
+    return urlAndNut;
   }
 
   /**
-   * The Express middleware handler. Use like:
-   * 
-   * let sqrlApi = new SQRLExpress(...);
-   * app.post('/sqrl', sqrlApi.handleSqrlApi);
+   * Handles a SQRL API call, returning the HTTP status code and body to send to the client.
+   * Failures are returned as error responses for the client rather than thrown.
    */
-  public handleSqrlApi = (req: express.Request, res: express.Response) => {
-    // Promisify to allow async coding style in authenticateAync and in unit tests.
-    this.authenticateAsync(req)
-      .then((authResult: AuthenticateAsyncResult) => {
-        this.log.debug('SQRL API call complete: ' +
-          `httpResponseCode: ${authResult.httpResponseCode}; ` +
-          `user: ${this.objToString(authResult.user)}; ` +
-          `encoded body: ${authResult.body}`);
-        res.statusCode = authResult.httpResponseCode;
-        res.send(authResult.body);
-      })
-      .catch(e => {
-        let err = <ClientInputError> e;  // Cast to commonly thrown error - if not correct, its httpStatusCode will be undefined.
-        this.log.error(`Error thrown from SQRL API call: ${err} httpStatusCode=${err.httpStatusCode}`);
-
-        // tslint:disable-next-line:no-bitwise
-        let tif: TIFFlags = TIFFlags.CommandFailed | TIFFlags.TransientError;
-
-        // Per SQRL protocol, the name-value pairs below will be joined in the same order
-        // with CR and LF characters, then base64url encoded.
-        let nextNut = SqrlUrlFactory.nutToString(this.nutGenerator(req));
-        let serverLines: string[] = [
-          'ver=1',  // Suported versions list
-          'nut=' + nextNut,  // TODO: Register this with upper handler
-          'tif=' + tif.toString(16),
-          'qry=' + this.config.urlPath + '?nut=' + nextNut,
-
-          // Use "ask" dialog on client to show error.
-          'ask=' + "Server error: " + err ? err.toString() : "<none>",
-        ];
-        let resp = serverLines.join("\r\n") + "\r\n";  // Last line must have CRLF as well.
-        resp = base64url.encode(resp);
-
-        res.statusCode = err.httpStatusCode || 500;
-        res.send(resp);
-      });
+  public async handleRequestAsync(request: SQRLApiRequest): Promise<AuthenticateAsyncResult> {
+    let requestState = new SqrlRequestState();
+    try {
+      let authResult: AuthenticateAsyncResult = await this.authenticateAsync(request, requestState);
+      this.log.debug('SQRL API call complete: ' +
+        `httpResponseCode: ${authResult.httpResponseCode}; ` +
+        `user: ${this.objToString(authResult.user)}; ` +
+        `encoded body: ${authResult.body}`);
+      return authResult;
+    } catch (e) {
+      let err = <SQRLError> e;  // Cast to commonly thrown error - if not correct, its httpStatusCode will be undefined.
+      this.log.error(`Error thrown from SQRL API call: ${err} httpStatusCode=${err.httpStatusCode}`);
+      return <AuthenticateAsyncResult> {
+        body: await this.composeErrorResponseAsync(request, err, requestState),
+        httpResponseCode: err.httpStatusCode || 500,
+      };
+    }
   }
 
   /**
-   * Promisified version of authenticate(). Not part of the public API.
+   * Handles a SQRL API call, throwing on failure. Not part of the public API; use
+   * handleRequestAsync(), which also composes error responses.
+   * @param requestState Optionally receives the nut lineage of the request, for
+   *   composing an error response if this method throws.
    */
-  protected async authenticateAsync(req: express.Request): Promise<AuthenticateAsyncResult> {
-    let params: any;
-    if (req.method === "POST") {
-      params = req.body;
-    } else {
-      params = req.params;  // Allow GET calls with URL params.
-    }
+  public async authenticateAsync(
+      request: SQRLApiRequest, requestState: SqrlRequestState = new SqrlRequestState()): Promise<AuthenticateAsyncResult> {
+    let params: any = await this.getParamsAsync(request);
 
-    let clientRequestInfo: ClientRequestInfo = BodyParser.parseAndValidateRequestFields(params);
-    if (clientRequestInfo.protocolVersion !== 1) {
-      throw new ClientInputError(`This server only handles SQRL protocol revision 1`);
+    // Limit before signature verification and storage lookups, which are the expensive parts.
+    let peeked = BodyParser.peekIdentityAndNut(params);
+    try {
+      await this.rateLimiter.checkAsync(this.getRequesterIp(request), peeked.idk, peeked.nut);
+    } catch (err) {
+      if (err instanceof RateLimitExceededError && peeked.nut) {
+        await this.consumeRateLimitedNutAsync(peeked.nut, params, requestState);
+      }
+      throw err;
     }
-    let nutInfoPromise: Promise<NutInfo | null> = clientRequestInfo.nut ?
-        this.identityStorage.getNutInfoAsync(clientRequestInfo.nut) : Promise.resolve(null);
 
-    let nextNut: string | Buffer = this.nutGenerator(req);
-    let nextNutStr = SqrlUrlFactory.nutToString(nextNut);
-    let nextUrl = this.config.urlPath + '?nut=' + nextNutStr;
-    let urlAndNut = new UrlAndNut(nextUrl, nextNut, nextNutStr);
+    let clientRequestInfo: ClientRequestInfo = BodyParser.parseAndValidateRequestFields(params, this.config.signatureVerifier);
+    let protocolHandler: ISQRLProtocolHandler = this.negotiateProtocolVersion(clientRequestInfo);
 
-    let nutInfo: NutInfo | null = await nutInfoPromise;
+    let nut: string = clientRequestInfo.nut || '';
+    let requestFingerprint: string = BodyParser.requestFingerprint(params);
+    let nutInfo: NutInfo | null = nut ? await this.consumeNutAsync(nut, params.server, requestFingerprint) : null;
     if (!nutInfo) {
       throw new ClientInputError('Client presented unknown nut value');
     }
+    if (nutInfo.consumedByRequest) {
+      // A client retrying an ident after a lost response sends the identical request,
+      // which is safe to repeat since identAsync() is idempotent. Anything else is a replay.
+      if (clientRequestInfo.sqrlCommand !== 'ident' || nutInfo.consumedByRequest !== requestFingerprint) {
+        throw new ClientInputError(`Client presented nut ${nut} that has already been used`);
+      }
+      this.log.info(`Retried ident request on used nut ${nut}`);
+    }
+    let originalLoginNut: string = nutInfo.originalLoginNut || nutInfo.nut || '';
+    requestState.originalLoginNut = originalLoginNut;
+    requestState.loginRequesterIp = nutInfo.requesterIp;
+    this.checkNutAge(nutInfo, !nutInfo.originalLoginNut);
 
-    await this.identityStorage.nutIssuedToClientAsync(urlAndNut, nutInfo.originalLoginNut || nutInfo.nut);
-    clientRequestInfo.nextNut = nextNutStr;
-    clientRequestInfo.nextUrl = nextUrl;
+    // Compare against the requester IP recorded when the login page nut was issued.
+    clientRequestInfo.requesterIp = this.getRequesterIp(request);
+    clientRequestInfo.ipAddressesMatch = !clientRequestInfo.skipIpAddressTest &&
+        !!clientRequestInfo.requesterIp && clientRequestInfo.requesterIp === nutInfo.requesterIp;
+
+    // Encrypted follow-up nuts contain a digest of the response body and are generated
+    // after the command completes. Otherwise the next nut is available to storage.
+    let urlAndNut: UrlAndNut | undefined;
+    if (!this.nutCodec) {
+      urlAndNut = this.createFollowUpUrlAndNut(this.nutGenerator(request));
+      urlAndNut.requesterIp = nutInfo.requesterIp;  // Carry forward the login page requester IP
+      clientRequestInfo.nextNut = urlAndNut.nutString;
+      clientRequestInfo.nextUrl = urlAndNut.url;
+    }
 
     this.log.debug(
         `SQRL API call received to ${this.config.urlPath}: ` +
-        `HTTP method ${req.method}. Parameter fields:${this.objToString(params)} . ` +
+        `HTTP method ${request.method}. Parameter fields:${this.objToString(params)} . ` +
         'Decoded:' + this.objToString(clientRequestInfo));
 
-    // The awaits here will throw any exceptions outward to the
-    // authenticate() callback handler.
-    let authCompletion: AuthCompletionInfo;
-    switch (clientRequestInfo.sqrlCommand) {
-      case 'query':
-        authCompletion = await this.identityStorage.queryAsync(clientRequestInfo, nutInfo);
-        break;
-      case 'ident':
-        authCompletion = await this.identityStorage.identAsync(clientRequestInfo, nutInfo);
-        break;
-      case 'disable':
-        authCompletion = await this.identityStorage.disableAsync(clientRequestInfo, nutInfo);
-        break;
-      case 'enable':
-        authCompletion = await this.identityStorage.enableAsync(clientRequestInfo, nutInfo);
-        break;
-      case 'remove':
-        authCompletion = await this.identityStorage.removeAsync(clientRequestInfo, nutInfo);
-        break;
-      default:
-        throw new ClientInputError(`Unknown SQRL command ${clientRequestInfo.sqrlCommand}`);
+    let authCompletion: AuthCompletionInfo = await protocolHandler.runCommandAsync(params, clientRequestInfo, nutInfo);
+    if (clientRequestInfo.ipAddressesMatch) {
+      // tslint:disable-next-line:no-bitwise
+      authCompletion.tifValues = (authCompletion.tifValues || 0) | TIFFlags.IPAddressesMatch;
+    }
+    // tslint:disable-next-line:no-bitwise
+    let commandFailed: boolean = ((authCompletion.tifValues || 0) & TIFFlags.CommandFailed) !== 0;
+    if (clientRequestInfo.sqrlCommand === 'ident' && authCompletion.user && !commandFailed) {
+      // Allow SQRLLoginStatus or SQRLStrategy to log in the browser showing the QR code.
+      let user: any = authCompletion.user;
+      await callStorageAsync(() => this.nutStore.loginCompletedAsync(originalLoginNut, user));
+      await this.publishLoginEventAsync(originalLoginNut, NutPollStatus.Completed);
+      if (clientRequestInfo.clientProvidedSession) {
+        clientRequestInfo.clientLoginSuccessUrl = await this.createCpsLoginUrlAsync(user);
+      }
+    }
+    // tslint:disable-next-line:no-bitwise
+    let idDisabled: boolean = ((authCompletion.tifValues || 0) & TIFFlags.IDDisabled) !== 0;
+    if (idDisabled && (clientRequestInfo.sqrlCommand === 'query' || clientRequestInfo.sqrlCommand === 'ident')) {
+      await callStorageAsync(() => this.nutStore.identityDisabledAtLoginAsync(originalLoginNut));
+      await this.publishLoginEventAsync(originalLoginNut, NutPollStatus.Disabled);
     }
 
     this.log.debug(`Auth completion info: ${this.objToString(authCompletion)}`);
+    let body: string;
+    if (this.nutCodec) {
+      // The client will present the response body as its server= value in its next request.
+      // Pack a digest of the body, minus the nut itself, into the nut in place of a storage write.
+      clientRequestInfo.nextNut = '';
+      clientRequestInfo.nextUrl = this.config.urlPath + '?nut=';
+      let digest = EncryptedNutCodec.responseDigest(
+          this.composeResponseText(protocolHandler, clientRequestInfo, authCompletion), '');
+      urlAndNut = this.createFollowUpUrlAndNut(
+          this.nutCodec.createFollowUpNut(this.getRequesterIp(request), digest, originalLoginNut));
+      clientRequestInfo.nextNut = urlAndNut.nutString;
+      clientRequestInfo.nextUrl = urlAndNut.url;
+      body = this.authCompletionToResponseBody(protocolHandler, clientRequestInfo, authCompletion);
+    } else {
+      // Register the next nut along with the exact response body, which the client will present
+      // as its server= value in its next request.
+      body = this.authCompletionToResponseBody(protocolHandler, clientRequestInfo, authCompletion);
+      (<UrlAndNut> urlAndNut).serverResponseBody = body;
+      await callStorageAsync(() => this.nutStore.nutIssuedToClientAsync(<UrlAndNut> urlAndNut, originalLoginNut));
+    }
+
     return <AuthenticateAsyncResult> {
       user: authCompletion.user,
-      body: this.authCompletionToResponseBody(clientRequestInfo, authCompletion),
+      body: body,
 
       // Per the SQRL API for calls like query we must return a 200 even if
       // there is no login performed, as this is really an API endpoint with multiple
@@ -411,32 +641,243 @@ export class SQRLExpress {
     return crypto.randomBytes(16 /*128 bits*/);
   }
 
-  private authCompletionToResponseBody(clientRequestInfo: ClientRequestInfo, authInfo: AuthCompletionInfo): string {
-    // Per SQRL protocol, the name-value pairs below will be joined in the same order
-    // with CR and LF characters, then base64url encoded.
-    let serverLines: string[] = [
-      'ver=1',  // Supported versions list
-      'nut=' + clientRequestInfo.nextNut,
-      'tif=' + (authInfo.tifValues || 0).toString(16),
-      'qry=' + this.config.urlPath + '?nut=' + clientRequestInfo.nextNut,
-    ];
+  /** Looks up a presented nut and records its use, returning null if the nut is unknown. */
+  private async consumeNutAsync(nut: string, server: string, requestFingerprint: string): Promise<NutInfo | null> {
+    if (!this.nutCodec) {
+      return await callStorageAsync(() => this.nutStore.consumeNutAsync(nut, requestFingerprint));
+    }
 
-    if (clientRequestInfo.clientProvidedSession && clientRequestInfo.sqrlCommand !== 'query') {
-      serverLines.push('url=' + this.config.clientLoginSuccessUrl);
+    // Encrypted nuts carry their own issue time and lineage, so only their use is recorded.
+    let nutInfo: NutInfo | null = this.decodeEncryptedNut(nut, server);
+    if (nutInfo) {
+      let expiresAt = new Date(new Date(<any> nutInfo.issuedAt).getTime() + this.nutMaxAgeSeconds(!nutInfo.originalLoginNut) * 1000);
+      let usedNutStore: IUsedNutStore = this.config.usedNutStore || defaultUsedNutStore;
+      nutInfo.consumedByRequest = await callStorageAsync(() => usedNutStore.markUsedAsync(nut, requestFingerprint, expiresAt)) || undefined;
     }
-    if (clientRequestInfo.returnSessionUnlockKey && authInfo.sessionUnlockKey) {
-      serverLines.push('suk=' + authInfo.sessionUnlockKey);
+    return nutInfo;
+  }
+
+  /**
+   * Consumes the nut of a rate limited request to give the error response a nut continuing
+   * its login, so the client can retry once the limit passes. This costs one nut store call
+   * rather than the signature verification and identity storage calls the limit avoids, and
+   * each issued nut yields at most one retry nut.
+   */
+  private async consumeRateLimitedNutAsync(nut: string, params: any, requestState: SqrlRequestState): Promise<void> {
+    try {
+      let nutInfo: NutInfo | null = await this.consumeNutAsync(nut, params.server, BodyParser.requestFingerprint(params));
+      if (nutInfo && !nutInfo.consumedByRequest) {
+        requestState.originalLoginNut = nutInfo.originalLoginNut || nutInfo.nut;
+        requestState.loginRequesterIp = nutInfo.requesterIp;
+      }
+    } catch (err) {
+      this.log.error(`Failed looking up rate limited nut ${nut}: ${err}`);
     }
-    if (this.config.clientCancelAuthUrl) {
-      serverLines.push('can=' + this.config.clientCancelAuthUrl);
+  }
+
+  private createFollowUpUrlAndNut(nextNut: string | Buffer): UrlAndNut {
+    let nextNutStr = SqrlUrlFactory.nutToString(nextNut);
+    return new UrlAndNut(this.config.urlPath + '?nut=' + nextNutStr, nextNut, nextNutStr);
+  }
+
+  /** Returns the parsed request fields, reading and parsing the body if the web framework has not. */
+  private async getParamsAsync(request: SQRLApiRequest): Promise<any> {
+    let maxBytes: number = valueOrDefault(this.config.maxRequestBodyBytes, defaultMaxRequestBodyBytes);
+    let body: any = request.params;
+    if (body === undefined && request.readBodyAsync) {
+      body = await request.readBodyAsync(maxBytes);
+    }
+    if (typeof body !== 'string' && !Buffer.isBuffer(body)) {
+      return body;
+    }
+    if (body.length > maxBytes) {
+      throw new ClientInputError(`Request body exceeds ${maxBytes} bytes`, 413);
+    }
+    return BodyParser.parseUrlEncodedBody(body, request.contentType);
+  }
+
+  private getRequesterIp(request: SQRLApiRequest): string | undefined {
+    let ip: string | undefined = this.config.getRequesterIp ?
+        this.config.getRequesterIp(request.nativeRequest) :
+        request.requesterIp;
+
+    // Treat IPv4-mapped IPv6 addresses as the IPv4 address, to compare the same
+    // client across IPv4 and dual-stack sockets.
+    if (ip && ip.startsWith('::ffff:') && ip.indexOf('.') > 0) {
+      ip = ip.substring(7);
+    }
+    return ip;
+  }
+
+  /**
+   * Returns SQRLStrategyConfig.clientLoginSuccessUrl with a one-time token that SQRLStrategy
+   * redeems to log in the browser the SQRL client redirects with the cps option.
+   */
+  private async createCpsLoginUrlAsync(user: any): Promise<string> {
+    let token: string = base64url.encode(crypto.randomBytes(32));
+    let maxAgeSeconds: number = valueOrDefault(this.config.cpsTokenMaxAgeSeconds, defaultCpsTokenMaxAgeSeconds);
+    let tokenStore: ICpsTokenStore = this.config.cpsTokenStore || defaultCpsTokenStore;
+    await callStorageAsync(() => tokenStore.storeAsync(token, user, new Date(Date.now() + maxAgeSeconds * 1000)));
+    let url: string = this.config.clientLoginSuccessUrl || '/';
+    return url + (url.indexOf('?') >= 0 ? '&' : '?') + `${cpsTokenParamName}=${token}`;
+  }
+
+  /**
+   * Notifies SQRLLoginStatus event streams waiting on the login. Failures are logged rather than
+   * failing the SQRL API call, as the login page falls back to polling.
+   */
+  private async publishLoginEventAsync(originalLoginNut: string, status: NutPollStatus): Promise<void> {
+    try {
+      await (this.config.loginEventBus || defaultLoginEventBus).publishAsync(originalLoginNut, status);
+    } catch (err) {
+      this.log.warning(`Failed to publish login event for nut ${originalLoginNut}: ${err}`);
+    }
+  }
+
+  /** Returns the configured maximum age for a QR-code or follow-up nut. */
+  private nutMaxAgeSeconds(isQrCodeNut: boolean): number {
+    return isQrCodeNut ?
+        valueOrDefault(this.config.qrCodeNutMaxAgeSeconds, defaultQrCodeNutMaxAgeSeconds) :
+        valueOrDefault(this.config.followUpNutMaxAgeSeconds, defaultFollowUpNutMaxAgeSeconds);
+  }
+
+  /** Throws StaleNutError if the nut is older than the configured maximum age for its kind. */
+  private checkNutAge(nutInfo: NutInfo, isQrCodeNut: boolean): void {
+    let maxAgeSeconds: number = this.nutMaxAgeSeconds(isQrCodeNut);
+
+    // Storage layers may return the time as a Date, an ISO string, or epoch milliseconds.
+    let issuedAtMsec: number = nutInfo.issuedAt ? new Date(<any> nutInfo.issuedAt).getTime() : NaN;
+    let ageSeconds: number = (Date.now() - issuedAtMsec) / 1000;
+    if (isNaN(ageSeconds)) {
+      throw new StaleNutError(`Nut ${nutInfo.nut} has no valid issue time and cannot be checked for expiry`);
+    }
+    if (ageSeconds > maxAgeSeconds) {
+      throw new StaleNutError(`Nut ${nutInfo.nut} expired ${Math.round(ageSeconds - maxAgeSeconds)} seconds ago`);
+    }
+  }
+
+  /**
+   * Decodes an encrypted nut into the NutInfo that storage would otherwise have returned,
+   * or null if the nut is not authentic or has a broken lineage.
+   */
+  private decodeEncryptedNut(nut: string, server: string): NutInfo | null {
+    let nutCodec = <EncryptedNutCodec> this.nutCodec;
+    let contents: EncryptedNutContents | null = nutCodec.decode(nut);
+    if (!contents) {
+      this.log.debug(`Encrypted nut ${nut} failed to decrypt`);
+      return null;
+    }
+
+    let nutInfo = <NutInfo> { nut: nut, issuedAt: contents.issuedAt };
+    if (contents.isQrCodeNut) {
+      nutInfo.url = this.urlFactory.create(nut);
+      nutInfo.requesterIp = contents.requesterIp;
+      return nutInfo;
+    }
+
+    // Follow-up nuts must lead back to an authentic QR-code nut.
+    let originalContents = contents.originalLoginNut ? nutCodec.decode(contents.originalLoginNut) : null;
+    if (!originalContents || !originalContents.isQrCodeNut) {
+      this.log.debug(`Encrypted nut ${nut} does not lead back to a QR-code nut`);
+      return null;
+    }
+    nutInfo.originalLoginNut = contents.originalLoginNut;
+    nutInfo.requesterIp = originalContents.requesterIp;
+
+    // The server= value is the response body issued with this nut if the digests match.
+    if (server && contents.serverResponseDigest &&
+        EncryptedNutCodec.responseDigest(base64url.decode(server), nut).equals(contents.serverResponseDigest)) {
+      nutInfo.serverResponseBody = server;
     }
+    return nutInfo;
+  }
 
-    let resp = serverLines.join("\r\n") + "\r\n";  // Last line must have CRLF as well.
+  private authCompletionToResponseBody(
+      protocolHandler: ISQRLProtocolHandler, clientRequestInfo: ClientRequestInfo, authInfo: AuthCompletionInfo): string {
+    let resp = this.composeResponseText(protocolHandler, clientRequestInfo, authInfo);
     this.log.debug(`Response body pre-encoding: ${resp}`);
     resp = base64url.encode(resp);
     return resp;
   }
 
+  /**
+   * Composes the body of an error response, with the TIF values for the error and a next
+   * nut registered with the same lineage as the failed request for any retry. If the
+   * lineage is unknown, e.g. for an unknown nut or a malformed request, no usable nut is
+   * issued and TransientError is cleared.
+   */
+  private async composeErrorResponseAsync(request: SQRLApiRequest, err: any, requestState: SqrlRequestState): Promise<string> {
+    let tif: TIFFlags = err instanceof SQRLError ? err.tifValues : TIFFlags.CommandFailed;
+
+    // Use "ask" dialog on client to show error. Only our own error messages are shown, as others
+    // may contain implementation details.
+    let ask = <AskMessage> { message: 'Server error: ' + (err instanceof SQRLError ? err.message : 'internal error') };
+
+    // Per SQRL protocol, the name-value pairs below will be joined in the same order
+    // with CR and LF characters, then base64url encoded.
+    let composeText = (nextNut: string): string => {
+      let serverLines: string[] = [
+        'ver=' + BodyParser.formatVersionList(this.supportedVersions),  // Suported versions list
+        'nut=' + nextNut,
+        'tif=' + tif.toString(16),
+        'qry=' + this.config.urlPath + '?nut=' + nextNut,
+        'ask=' + BodyParser.encodeAskField(ask),
+      ];
+      return serverLines.join("\r\n") + "\r\n";  // Last line must have CRLF as well.
+    };
+
+    if (!requestState.originalLoginNut) {
+      // Registering or encrypting a nut here would let unauthenticated requests grow storage
+      // or obtain valid nuts. The random nut is never accepted and only keeps the response
+      // in the protocol's required form.
+      // tslint:disable-next-line:no-bitwise
+      tif &= ~TIFFlags.TransientError;
+      return base64url.encode(composeText(SqrlUrlFactory.nutToString(this.generateRandomNut())));
+    }
+
+    if (this.nutCodec) {
+      let nextNut: Buffer = this.nutCodec.createFollowUpNut(this.getRequesterIp(request),
+          EncryptedNutCodec.responseDigest(composeText(''), ''), requestState.originalLoginNut);
+      return base64url.encode(composeText(SqrlUrlFactory.nutToString(nextNut)));
+    }
+
+    let urlAndNut = this.createFollowUpUrlAndNut(this.nutGenerator(request));
+    urlAndNut.requesterIp = requestState.loginRequesterIp;
+    let body = base64url.encode(composeText(urlAndNut.nutString));
+    urlAndNut.serverResponseBody = body;
+    try {
+      await this.nutStore.nutIssuedToClientAsync(urlAndNut, requestState.originalLoginNut);
+    } catch (regErr) {
+      this.log.error(`Failed registering nut ${urlAndNut.nutString} for error response: ${regErr}`);
+    }
+    return body;
+  }
+
+  private composeResponseText(
+      protocolHandler: ISQRLProtocolHandler, clientRequestInfo: ClientRequestInfo, authInfo: AuthCompletionInfo): string {
+    // Per SQRL protocol, the name-value pairs below will be joined in the same order
+    // with CR and LF characters, then base64url encoded.
+    let serverLines: string[] = ['ver=' + BodyParser.formatVersionList(this.supportedVersions)]
+        .concat(protocolHandler.composeResponseLines(clientRequestInfo, authInfo));
+    return serverLines.join("\r\n") + "\r\n";  // Last line must have CRLF as well.
+  }
+
+  /**
+   * Selects the highest protocol revision supported by both the client and this server,
+   * sets it into ClientRequestInfo.protocolVersion, and returns its handler.
+   */
+  private negotiateProtocolVersion(clientRequestInfo: ClientRequestInfo): ISQRLProtocolHandler {
+    let clientVersions: number[] = clientRequestInfo.clientProtocolVersions || [];
+    for (let i = this.supportedVersions.length - 1; i >= 0; i--) {
+      if (clientVersions.indexOf(this.supportedVersions[i]) >= 0) {
+        clientRequestInfo.protocolVersion = this.supportedVersions[i];
+        return this.protocolHandlers[this.supportedVersions[i]];
+      }
+    }
+    throw new ClientInputError(
+        `This server only handles SQRL protocol revision ${BodyParser.formatVersionList(this.supportedVersions)}`);
+  }
+
   private objToString(o: any): string {
     if (!o) {
       return "undefined";
@@ -450,302 +891,3382 @@ export class SQRLExpress {
 }
 
 /**
- * SQRL Strategy for PassportJS.
+ * ExpressJS middleware for the SQRL API.
+ * Because SQRL does not use the HTTP Authenticate header in its data flow,
+ * this handler is intended to be attached to a SQRL-specific route, e.g. '/sqrl',
+ * that is not hooked into PassportJS. See the sample site in the passport-sqrl repo.
+ *
+ * The urlencoded request body is read and parsed here unless a body parser middleware
+ * has already parsed it, so the route works with or without body-parser in any order.
  */
-export class SQRLStrategy extends Strategy {
+export class SQRLExpress {
+  private engine: SQRLEngine;
+
   /**
-   * The strategy name ('sqrl') to use when configuring a passport mapping
-   * to an authentication route.
+   * Creates a new SQRL API handler for ExpressJS.
+   * See SQRLEngine for a description of the parameters.
    */
-  public name: string = 'sqrl';
-
-  private log: ILogger;
-  private config: SQRLStrategyConfig;
+  constructor(storage: ISQRLIdentityStorage | SQRLStores, log: ILogger, config: SQRLStrategyConfig) {
+    this.engine = new SQRLEngine(storage, log, config);
+  }
 
-  constructor(log: ILogger, config: SQRLStrategyConfig) {
-    super();
-    this.log = log;
-    this.config = config;
+  /**
+   * Composes and returns a SQRL URL containing a unique "nut", plus the nut value for
+   * registration for the external app login flow. The URL should be passed though a
+   * QR-Code generator to produce the SQRL login QR for the client.
+   */
+  public getSqrlUrl(req: express.Request): UrlAndNut {
+    return this.engine.getSqrlUrl(this.toApiRequest(req));
   }
 
-  // Currently no additional logic here on top of a basic PassportJS Strategy.
-  // SQRL does not use the HTTP Authenticate header and does not present its
-  // credentials inline with regular page requests. However, configuration of
-  // PassportJS and this (empty) Strategy enables the req.login() method which
-  // can be used to wire up detection of a successful login with returning
-  // a user profile reference in the ambient site cookie once the SQRL API
-  // (see SQRLExpress) has gotten a succesful 'ident' call. For an example
-  // of how to do this, see the test site code in TestSiteHandler.ts in
-  // the passport-sqrl repo.
-}
+  /**
+   * The Express middleware handler. Use like:
+   *
+   * let sqrlApi = new SQRLExpress(...);
+   * app.post('/sqrl', sqrlApi.handleSqrlApi);
+   */
+  public handleSqrlApi = async (req: express.Request, res: express.Response): Promise<void> => {
+    let authResult: AuthenticateAsyncResult = await this.engine.handleRequestAsync(this.toApiRequest(req));
+    res.statusCode = authResult.httpResponseCode;
+    res.send(authResult.body);
+  }
 
-/**
- * Encapsulates the parameters that are needed to resolve a SQRL API call.
- * Exported for unit testing but not intended to be used directly.
- */
-export class AuthenticateAsyncResult {
   /**
-   * The user profile for return to PassportJS.
-   * This field is expected to be null for a SQRL 'query' command.
+   * Promisified version of authenticate(). Not part of the public API.
+   * @param requestState Optionally receives the nut lineage of the request, for
+   *   composing an error response if this method throws.
    */
-  public user?: any;
+  protected authenticateAsync(req: express.Request, requestState?: SqrlRequestState): Promise<AuthenticateAsyncResult> {
+    return this.engine.authenticateAsync(this.toApiRequest(req), requestState);
+  }
 
-  /** base64url encoded response fields for return in the API response body. */
-  public body?: string;
+  private toApiRequest(req: express.Request): SQRLApiRequest {
+    let isPost = req.method === "POST";
+    return <SQRLApiRequest> {
+      contentType: req.headers ? req.headers['content-type'] : undefined,
+      method: req.method,
+      nativeRequest: req,
+      params: isPost ? getExpressParsedBody(req) : req.query,  // Allow GET calls with query string params.
+      readBodyAsync: isPost && req.readable ? (maxBytes: number) => readStreamAsync(req, maxBytes) : undefined,
 
-  public httpResponseCode: number = 500;
+      // req.ip honors the Express 'trust proxy' setting.
+      requesterIp: req.ip || (req.connection ? req.connection.remoteAddress : undefined),
+    };
+  }
 }
 
-/** A SQRL URL and its contained nut, broken out to separate fields for varying purposes. */
-export class UrlAndNut {
-  public url: string;
-  public nut: string | Buffer;
-  public nutString: string;
-
-  constructor(url: string, nut: string | Buffer, nutString: string) {
-    this.url = url;
-    this.nut = nut;
-    this.nutString = nutString;
-  }
+/** The parts of a Koa context used by SQRLKoa. */
+export interface IKoaContext {
+  method: string;
+  ip: string;
+  query: any;
+  headers: { [name: string]: string | string[] | undefined };
+  request: { body?: any };
+  req: http.IncomingMessage;
+  status: number;
+  type: string;
+  body: any;
 }
 
 /**
- * Parameters derived from the POST or GET parameters to the SQRL auth route.
- * This information gets passed to the query, ident, disable, enable, and remove
- * callbacks to the auth implementation. The public keys provided here have
- * already been validated against the private key and the nut and URL signatures.
+ * Koa middleware for the SQRL API. Attach to a SQRL-specific route, e.g. with koa-router:
  *
- * See https://www.grc.com/sqrl/protocol.htm particularly "How to form the POST verb's body."
+ * let sqrlApi = new SQRLKoa(...);
+ * router.post('/sqrl', sqrlApi.middleware);
+ *
+ * The request body is read and parsed here unless a body parser such as koa-bodyparser
+ * has already set ctx.request.body.
  */
-export class ClientRequestInfo {
-  /** The client's SQRL protocol revision. */
-  public protocolVersion: number = 1;
+export class SQRLKoa {
+  private engine: SQRLEngine;
 
+  /** See SQRLEngine for a description of the parameters. */
+  constructor(storage: ISQRLIdentityStorage | SQRLStores, log: ILogger, config: SQRLStrategyConfig) {
+    this.engine = new SQRLEngine(storage, log, config);
+  }
+
+  /** Returns a SQRL URL and nut for a login page. See SQRLExpress.getSqrlUrl(). */
+  public getSqrlUrl(ctx: IKoaContext): UrlAndNut {
+    return this.engine.getSqrlUrl(this.toApiRequest(ctx));
+  }
+
+  /** The Koa middleware. Ends the request; does not call the next middleware. */
+  public middleware = async (ctx: IKoaContext): Promise<void> => {
+    let authResult: AuthenticateAsyncResult = await this.engine.handleRequestAsync(this.toApiRequest(ctx));
+    ctx.status = authResult.httpResponseCode;
+    ctx.type = 'text/plain';
+    ctx.body = authResult.body;
+  }
+
+  private toApiRequest(ctx: IKoaContext): SQRLApiRequest {
+    let isPost = ctx.method === 'POST';
+    return <SQRLApiRequest> {
+      contentType: ctx.headers['content-type'],
+      method: ctx.method,
+      nativeRequest: ctx,
+      params: isPost ? ctx.request.body : ctx.query,
+      readBodyAsync: isPost ? (maxBytes: number) => readStreamAsync(ctx.req, maxBytes) : undefined,
+      requesterIp: ctx.ip,  // Honors the Koa app.proxy setting
+    };
+  }
+}
+
+/** The parts of a Fastify request used by SQRLFastify. */
+export interface IFastifyRequest {
+  method: string;
+  ip: string;
+  query: any;
+  headers?: { [name: string]: string | string[] | undefined };
+  body?: any;
+}
+
+/** The parts of a Fastify reply used by SQRLFastify. */
+export interface IFastifyReply {
+  code(statusCode: number): IFastifyReply;
+  type(contentType: string): IFastifyReply;
+  send(payload?: any): any;
+}
+
+/**
+ * Fastify route handler for the SQRL API. Fastify rejects urlencoded bodies unless a
+ * content type parser is registered, so register @fastify/formbody, or a parser
+ * returning the body as a string, before adding the route:
+ *
+ * let sqrlApi = new SQRLFastify(...);
+ * fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (req, body, done) => done(null, body));
+ * fastify.post('/sqrl', sqrlApi.handler);
+ */
+export class SQRLFastify {
+  private engine: SQRLEngine;
+
+  /** See SQRLEngine for a description of the parameters. */
+  constructor(storage: ISQRLIdentityStorage | SQRLStores, log: ILogger, config: SQRLStrategyConfig) {
+    this.engine = new SQRLEngine(storage, log, config);
+  }
+
+  /** Returns a SQRL URL and nut for a login page. See SQRLExpress.getSqrlUrl(). */
+  public getSqrlUrl(request: IFastifyRequest): UrlAndNut {
+    return this.engine.getSqrlUrl(this.toApiRequest(request));
+  }
+
+  /** The Fastify route handler. */
+  public handler = async (request: IFastifyRequest, reply: IFastifyReply): Promise<void> => {
+    let authResult: AuthenticateAsyncResult = await this.engine.handleRequestAsync(this.toApiRequest(request));
+    reply.code(authResult.httpResponseCode).type('text/plain').send(authResult.body);
+  }
+
+  private toApiRequest(request: IFastifyRequest): SQRLApiRequest {
+    let params: any = request.method === 'POST' ? request.body : request.query;
+    return <SQRLApiRequest> {
+      contentType: request.headers ? request.headers['content-type'] : undefined,
+      method: request.method,
+      nativeRequest: request,
+      params: params,
+      requesterIp: request.ip,  // Honors the Fastify trustProxy setting
+    };
+  }
+}
+
+/**
+ * SQRL API handler for the Node.js http and https modules. Use like:
+ *
+ * let sqrlApi = new SQRLNodeHttp(...);
+ * http.createServer((req, res) => {
+ *   if (req.url.startsWith('/sqrl')) {
+ *     sqrlApi.handleRequest(req, res);
+ *   }
+ * });
+ */
+export class SQRLNodeHttp {
+  private engine: SQRLEngine;
+
+  /** See SQRLEngine for a description of the parameters. */
+  constructor(storage: ISQRLIdentityStorage | SQRLStores, log: ILogger, config: SQRLStrategyConfig) {
+    this.engine = new SQRLEngine(storage, log, config);
+  }
+
+  /**
+   * Returns a SQRL URL and nut for a login page. See SQRLExpress.getSqrlUrl(). The requester
+   * IP is the socket's remote address; behind a proxy, set SQRLStrategyConfig.getRequesterIp.
+   */
+  public getSqrlUrl(req: http.IncomingMessage): UrlAndNut {
+    return this.engine.getSqrlUrl(this.toApiRequest(req));
+  }
+
+  /** Handles a SQRL API request, reading the urlencoded body and ending the response. */
+  public handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    let authResult: AuthenticateAsyncResult = await this.engine.handleRequestAsync(this.toApiRequest(req));
+    res.writeHead(authResult.httpResponseCode, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(authResult.body);
+  }
+
+  private toApiRequest(req: http.IncomingMessage): SQRLApiRequest {
+    let isPost = req.method === 'POST';
+    return <SQRLApiRequest> {
+      contentType: req.headers['content-type'],
+      method: req.method,
+      nativeRequest: req,
+      params: isPost ? undefined : urlLib.parse(req.url || '', /*parseQueryString:*/true).query,
+      readBodyAsync: isPost ? (maxBytes: number) => readStreamAsync(req, maxBytes) : undefined,
+      requesterIp: req.socket ? req.socket.remoteAddress : undefined,
+    };
+  }
+}
+
+/**
+ * Returns the body if a body parser middleware has run, or undefined to read the body here.
+ * Parsers set req.body to {} when skipping a request with another content type, and body-parser
+ * sets req._body once it has read the stream.
+ */
+function getExpressParsedBody(req: express.Request): any {
+  let body: any = req.body;
+  let bodyParsed: boolean = (<any> req)._body === true ||
+      typeof body === 'string' || Buffer.isBuffer(body) ||
+      (!!body && typeof body === 'object' && Object.keys(body).length > 0);
+  return bodyParsed ? body : undefined;
+}
+
+/**
+ * Reads a request body stream, rejecting with ClientInputError and HTTP status 413
+ * if it exceeds maxBytes.
+ */
+function readStreamAsync(stream: NodeJS.ReadableStream, maxBytes: number): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    let chunks: Buffer[] = [];
+    let length = 0;
+    stream.on('data', (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        stream.removeAllListeners('data');
+        stream.resume();  // Drain the rest so the response can be sent.
+        reject(new ClientInputError(`Request body exceeds ${maxBytes} bytes`, 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Implements request checks, command dispatch, and response composition for one revision
+ * of the SQRL protocol. SQRLEngine negotiates the protocol revision with the client, then
+ * passes the request to the handler for the negotiated revision. Register handlers for
+ * later revisions with SQRLStrategyConfig.protocolHandlers.
+ */
+export interface ISQRLProtocolHandler {
+  /** The SQRL protocol revision implemented by this handler. */
+  readonly protocolVersion: number;
+
+  /**
+   * Checks the client request against the nut issued to it, then runs the client's command.
+   * @param params The raw request fields, for signature verification.
+   * @param clientRequestInfo The parsed request, whose protocolVersion is this handler's revision.
+   * @param nutInfo The information recorded with the nut presented by the client.
+   */
+  runCommandAsync(params: any, clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo>;
+
+  /**
+   * Returns the response name=value lines following the ver= line, which SQRLEngine
+   * composes from the configured protocol revisions.
+   */
+  composeResponseLines(clientRequestInfo: ClientRequestInfo, authInfo: AuthCompletionInfo): string[];
+}
+
+/**
+ * The ISQRLProtocolHandler for SQRL protocol revision 1 (https://www.grc.com/sqrl/protocol.htm).
+ * Handlers for later revisions may derive from this class to reuse its behavior.
+ */
+export class SQRLProtocolV1Handler implements ISQRLProtocolHandler {
+  public readonly protocolVersion: number = 1;
+
+  protected identityStorage: ISqrlIdentityStore;
+  protected log: ILogger;
+  protected config: SQRLStrategyConfig;
+
+  constructor(identityStorage: ISqrlIdentityStore, log: ILogger, config: SQRLStrategyConfig) {
+    this.identityStorage = identityStorage;
+    this.log = log;
+    this.config = config;
+  }
+
+  /**
+   * Runs the checks that can fail a verified request, then the command itself.
+   * Returns a failure AuthCompletionInfo without calling storage if a check fails.
+   */
+  public async runCommandAsync(params: any, clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let requestFailure: string | null = this.checkRequestAgainstIssuedNut(params, clientRequestInfo, nutInfo);
+    if (!requestFailure) {
+      requestFailure = await this.checkUnlockRequestSignatureAsync(params, clientRequestInfo);
+    }
+    if (requestFailure) {
+      this.log.warning(requestFailure);
+      return <AuthCompletionInfo> {
+        // tslint:disable-next-line:no-bitwise
+        tifValues: TIFFlags.CommandFailed | TIFFlags.ClientFailure
+      };
+    }
+
+    if (this.config.refuseIdentOnIpMismatch && clientRequestInfo.sqrlCommand === 'ident' &&
+        !clientRequestInfo.skipIpAddressTest && !clientRequestInfo.ipAddressesMatch) {
+      this.log.info(`Refusing ident from ${clientRequestInfo.requesterIp}: ` +
+          `login page requester IP was ${nutInfo.requesterIp}`);
+      return <AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed };
+    }
+
+    if (clientRequestInfo.sqrlCommand === 'query') {
+      // The sqrlonly and hardlock options only take effect from non-query commands.
+      clientRequestInfo.useSqrlIdentityOnly = false;
+      clientRequestInfo.hardLockSqrlUse = false;
+    }
+
+    return this.dispatchCommandAsync(clientRequestInfo, nutInfo);
+  }
+
+  /** Returns the response lines following the ver= line, in protocol order. */
+  public composeResponseLines(clientRequestInfo: ClientRequestInfo, authInfo: AuthCompletionInfo): string[] {
+    let serverLines: string[] = [
+      'nut=' + clientRequestInfo.nextNut,
+      'tif=' + (authInfo.tifValues || 0).toString(16),
+      'qry=' + this.config.urlPath + '?nut=' + clientRequestInfo.nextNut,
+    ];
+
+    // tslint:disable-next-line:no-bitwise
+    let commandFailed = (authInfo.tifValues & TIFFlags.CommandFailed) !== 0;
+    if (clientRequestInfo.clientProvidedSession && clientRequestInfo.sqrlCommand !== 'query' && !commandFailed) {
+      serverLines.push('url=' + (clientRequestInfo.clientLoginSuccessUrl || this.config.clientLoginSuccessUrl));
+    }
+    // The client needs the suk to sign a rekeying 'ident', 'enable', or 'remove', whether
+    // or not it asked.
+    // tslint:disable-next-line:no-bitwise
+    let sukNeeded = (authInfo.tifValues & (TIFFlags.PreviousIDMatch | TIFFlags.IDDisabled)) !== 0;
+    if ((clientRequestInfo.returnSessionUnlockKey || sukNeeded) && authInfo.sessionUnlockKey) {
+      serverLines.push('suk=' + authInfo.sessionUnlockKey);
+    }
+    if (authInfo.secretIndex && !commandFailed &&
+        (clientRequestInfo.sqrlCommand === 'query' || clientRequestInfo.sqrlCommand === 'ident')) {
+      if (/[\r\n]/.test(authInfo.secretIndex)) {
+        throw new Error('AuthCompletionInfo.secretIndex must not contain CR or LF characters');
+      }
+      serverLines.push('sin=' + authInfo.secretIndex);
+    }
+    if (authInfo.ask) {
+      serverLines.push('ask=' + BodyParser.encodeAskField(authInfo.ask));
+    }
+    if (this.config.clientCancelAuthUrl) {
+      serverLines.push('can=' + this.config.clientCancelAuthUrl);
+    }
+
+    return serverLines;
+  }
+  /**
+   * Checks the parts of a client request that depend on what this server sent along with
+   * the presented nut. Returns a description of the problem, or null if the request is consistent.
+   */
+  protected checkRequestAgainstIssuedNut(params: any, clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): string | null {
+    // The client's server= value must be exactly the QR-code URL or response body we sent
+    // along with the nut. Anything else is a tampered or replayed request.
+    if (!BodyParser.serverValueMatchesNutInfo(params.server, nutInfo)) {
+      return `Client server= value does not match the value issued with nut ${nutInfo.nut}`;
+    }
+
+    // A btn= answer is only valid in response to an ask= dialog we sent.
+    clientRequestInfo.serverAsk = BodyParser.getIssuedAsk(nutInfo);
+    if (clientRequestInfo.serverAskResponseSelection && !clientRequestInfo.serverAsk) {
+      return 'Client sent btn= without an ask= dialog request';
+    }
+
+    // If our response asked for a secret index, the client must answer with ins=, plus pins=
+    // when it is also presenting a previous identity.
+    clientRequestInfo.secretIndex = BodyParser.getIssuedSecretIndex(nutInfo);
+    if (clientRequestInfo.secretIndex) {
+      if (!clientRequestInfo.indexSecret) {
+        return 'Client did not return ins= in response to the sin= secret index request';
+      }
+      if (clientRequestInfo.previousIdentityPublicKey && !clientRequestInfo.previousIndexSecret) {
+        return 'Client did not return pins= for its previous identity in response to the sin= secret index request';
+      }
+    } else if (clientRequestInfo.indexSecret || clientRequestInfo.previousIndexSecret) {
+      return 'Client sent ins= or pins= without a sin= secret index request';
+    }
+
+    return null;
+  }
+
+  /**
+   * Verifies the client's urs= Unlock Request Signature against the vuk stored for the
+   * identity being unlocked, and sets ClientRequestInfo.unlockRequestSignatureVerified.
+   * 'enable' and 'remove' unlock the current identity; an 'ident' presenting a known
+   * previous identity replaces that identity. Returns a description of the problem if the
+   * command requires a valid signature and did not have one, else null.
+   */
+  protected async checkUnlockRequestSignatureAsync(params: any, clientRequestInfo: ClientRequestInfo): Promise<string | null> {
+    let unlockedIdentity: string | undefined;
+    switch (clientRequestInfo.sqrlCommand) {
+      case 'enable':
+      case 'remove':
+        unlockedIdentity = clientRequestInfo.primaryIdentityPublicKey;
+        break;
+      case 'ident':
+        unlockedIdentity = clientRequestInfo.previousIdentityPublicKey;
+        break;
+    }
+    if (!unlockedIdentity) {
+      return null;
+    }
+
+    let identity = unlockedIdentity;
+    let vuk: string | null = await callStorageAsync(() => this.identityStorage.getServerVerifyUnlockKeyAsync(identity));
+    clientRequestInfo.unlockRequestSignatureVerified = !!vuk && BodyParser.verifyUnlockRequestSignature(params, vuk, this.config.signatureVerifier);
+    if (clientRequestInfo.unlockRequestSignatureVerified) {
+      return null;
+    }
+    if (clientRequestInfo.sqrlCommand === 'ident' && !vuk) {
+      // Previous identity is unknown here so there is nothing to replace.
+      return null;
+    }
+    return `SQRL '${clientRequestInfo.sqrlCommand}' command requires a valid urs= unlock request signature`;
+  }
+
+  /**
+   * Enforces the identity lifecycle (https://www.grc.com/sqrl/semantics.htm) so that storage
+   * only sees valid transitions. A disabled identity cannot 'ident'; 'disable', 'enable', and
+   * 'remove' need a known identity; and 'remove' needs a disabled one. 'disable' and 'enable'
+   * of an identity already in that state succeed without a storage call. Returns the response
+   * for a command settled here, or null to run the command in storage.
+   *
+   * The identity state comes from the tif= of the successful response issued with the nut,
+   * usually to the client's 'query', without a storage call. That state may have changed
+   * since, as by the 'ident' of a new identity, so ISqrlIdentityStore.queryAsync() confirms
+   * it before the command is settled here. It is also used when there is no such response.
+   */
+  protected async checkIdentityLifecycleAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo | null> {
+    let command: string | undefined = clientRequestInfo.sqrlCommand;
+    if (command !== 'ident' && command !== 'disable' && command !== 'enable' && command !== 'remove') {
+      return null;
+    }
+
+    // A failed command's response may not report the identity state, and an original
+    // QR-code nut has no response at all.
+    let issuedTif: TIFFlags | undefined = BodyParser.getIssuedTifValues(nutInfo);
+    // tslint:disable-next-line:no-bitwise
+    if (issuedTif !== undefined && (issuedTif & TIFFlags.CommandFailed) === 0 &&
+        !this.settleIdentityLifecycle(command, issuedTif, /*logRefusal:*/false)) {
+      return null;
+    }
+    let state: AuthCompletionInfo = await callStorageAsync(() => this.identityStorage.queryAsync(clientRequestInfo, nutInfo));
+    return this.settleIdentityLifecycle(command, state.tifValues || 0, /*logRefusal:*/true);
+  }
+
+  /**
+   * Returns the response for a command settled by the identity lifecycle given the identity
+   * state in tifValues, or null if the command should run in storage.
+   */
+  protected settleIdentityLifecycle(command: string, tifValues: TIFFlags, logRefusal: boolean): AuthCompletionInfo | null {
+    // tslint:disable:no-bitwise
+    let stateTif: TIFFlags = tifValues & (TIFFlags.CurrentIDMatch | TIFFlags.PreviousIDMatch | TIFFlags.IDDisabled);
+    let known: boolean = (stateTif & (TIFFlags.CurrentIDMatch | TIFFlags.PreviousIDMatch)) !== 0;
+    let disabled: boolean = (stateTif & TIFFlags.IDDisabled) !== 0;
+    let refuse = (reason: string): AuthCompletionInfo => {
+      if (logRefusal) {
+        this.log.info(`Refusing SQRL '${command}': ${reason}`);
+      }
+      return <AuthCompletionInfo> { tifValues: stateTif | TIFFlags.CommandFailed };
+    };
+    // tslint:enable:no-bitwise
+    switch (command) {
+      case 'ident':
+        return disabled ? refuse('identity is disabled') : null;
+      case 'disable':
+        if (!known) {
+          return refuse('identity is unknown');
+        }
+        return disabled ? <AuthCompletionInfo> { tifValues: stateTif } : null;
+      case 'enable':
+        if (!known) {
+          return refuse('identity is unknown');
+        }
+        return disabled ? null : <AuthCompletionInfo> { tifValues: stateTif };
+      default:  // remove
+        if (!known) {
+          return refuse('identity is unknown');
+        }
+        return disabled ? null : refuse('identity must be disabled first');
+    }
+  }
+
+  protected async dispatchCommandAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let settled: AuthCompletionInfo | null = await this.checkIdentityLifecycleAsync(clientRequestInfo, nutInfo);
+    if (settled) {
+      return settled;
+    }
+
+    // The awaits here will throw any exceptions outward to the
+    // authenticate() callback handler.
+    let authCompletion: AuthCompletionInfo;
+    switch (clientRequestInfo.sqrlCommand) {
+      case 'query':
+        authCompletion = await callStorageAsync(() => this.identityStorage.queryAsync(clientRequestInfo, nutInfo));
+        break;
+      case 'ident':
+        authCompletion = await callStorageAsync(() => this.identityStorage.identAsync(clientRequestInfo, nutInfo));
+        break;
+      case 'disable':
+        authCompletion = await callStorageAsync(() => this.identityStorage.disableAsync(clientRequestInfo, nutInfo));
+        break;
+      case 'enable':
+        authCompletion = await callStorageAsync(() => this.identityStorage.enableAsync(clientRequestInfo, nutInfo));
+        break;
+      case 'remove':
+        authCompletion = await callStorageAsync(() => this.identityStorage.removeAsync(clientRequestInfo, nutInfo));
+        break;
+      default:
+        throw new UnsupportedCommandError(`Unknown SQRL command ${clientRequestInfo.sqrlCommand}`);
+    }
+
+    // Report the new state whatever storage returned.
+    // tslint:disable:no-bitwise
+    authCompletion.tifValues = authCompletion.tifValues || 0;
+    if ((authCompletion.tifValues & TIFFlags.CommandFailed) === 0) {
+      if (clientRequestInfo.sqrlCommand === 'disable') {
+        authCompletion.tifValues |= TIFFlags.IDDisabled;
+      } else if (clientRequestInfo.sqrlCommand === 'enable' || clientRequestInfo.sqrlCommand === 'remove') {
+        authCompletion.tifValues &= ~TIFFlags.IDDisabled;
+      } else if (clientRequestInfo.sqrlCommand === 'ident' && (authCompletion.tifValues & TIFFlags.IDDisabled) !== 0) {
+        authCompletion.tifValues |= TIFFlags.CommandFailed;
+        authCompletion.user = undefined;
+      }
+    }
+    // tslint:enable:no-bitwise
+    return authCompletion;
+  }
+
+}
+
+/**
+ * SQRL Strategy for PassportJS. Logs in a browser once a SQRL client has completed
+ * an 'ident' with the nut from the browser's login page. Use with passport.authenticate()
+ * on a route receiving the nut, e.g. polled by the login page:
+ *
+ * passport.use(new SQRLStrategy(log, config, nutStore));
+ * app.get('/pollNut/:nut', passport.authenticate('sqrl', { successRedirect: '/', failureRedirect: '/login' }));
+ *
+ * Also logs in a browser redirected by a SQRL client with the cps option, using the one-time
+ * token added to SQRLStrategyConfig.clientLoginSuccessUrl, so that route should also use
+ * passport.authenticate('sqrl').
+ */
+export class SQRLStrategy extends Strategy {
+  /**
+   * The strategy name ('sqrl') to use when configuring a passport mapping
+   * to an authentication route.
+   */
+  public name: string = 'sqrl';
+
+  private log: ILogger;
+  private config: SQRLStrategyConfig;
+  private nutStore?: INutStore;
+  private nutCodec?: EncryptedNutCodec;
+
+  /**
+   * @param log ILogger implementation for logging output.
+   * @param config The configuration shared with the SQRL API handler.
+   * @param nutStore The INutStore (or ISQRLIdentityStorage) shared with the SQRL API handler,
+   *   used to find completed logins. Required for authenticate().
+   */
+  constructor(log: ILogger, config: SQRLStrategyConfig, nutStore?: INutStore) {
+    super();
+    this.log = log;
+    this.config = config;
+    this.nutStore = nutStore;
+    if (config.encryptedNutKey) {
+      this.nutCodec = new EncryptedNutCodec(config.encryptedNutKey);
+    }
+  }
+
+  /**
+   * Authenticates a request carrying the nut of a SQRL login, from the route parameters,
+   * the request body, or the query string, in that order. Calls success() with the user
+   * recorded by INutStore.loginCompletedAsync() once the login has completed,
+   * or fail() while it has not. Each completed login authenticates only one request.
+   * A request carrying a cps login token in the query string is authenticated by the token.
+   */
+  public authenticate(req: express.Request, options?: AuthenticateOptions): void {
+    let cpsToken: any = req.query ? req.query[cpsTokenParamName] : undefined;
+    if (typeof cpsToken === 'string' && cpsToken) {
+      this.redeemCpsToken(cpsToken);
+      return;
+    }
+
+    let nut: string | undefined = getRequestNut(req);
+    if (!nut) {
+      this.fail({ message: 'Missing SQRL nut' }, 400);
+      return;
+    }
+    this.findCompletedLoginAsync(nut).then(
+      user => {
+        if (user) {
+          this.log.debug(`SQRLStrategy: Nut ${nut} logged in`);
+          this.success(user);
+        } else {
+          this.log.finest(() => `SQRLStrategy: Nut ${nut} not logged in`);
+          this.fail({ message: 'SQRL login has not completed' }, 401);
+        }
+      },
+      err => this.error(err));
+  }
+
+  private redeemCpsToken(cpsToken: string): void {
+    let tokenStore: ICpsTokenStore = this.config.cpsTokenStore || defaultCpsTokenStore;
+    callStorageAsync(() => tokenStore.consumeAsync(cpsToken)).then(
+      user => {
+        if (user) {
+          this.log.debug('SQRLStrategy: cps login token redeemed');
+          this.success(user);
+        } else {
+          this.log.debug('SQRLStrategy: Unknown, used, or expired cps login token');
+          this.fail({ message: 'Invalid or expired SQRL login token' }, 401);
+        }
+      },
+      err => this.error(err));
+  }
+
+  private async findCompletedLoginAsync(nut: string): Promise<any | null> {
+    if (!this.nutStore) {
+      throw new Error('SQRLStrategy requires an INutStore to authenticate');
+    }
+    let nutStore = this.nutStore;
+    let loginNut: ILoginNut | null = decodeLoginNut(this.nutCodec, nut);
+    if (!loginNut) {
+      return null;
+    }
+    let originalLoginNut = loginNut.originalLoginNut;
+    return await callStorageAsync(() => nutStore.consumeCompletedLoginAsync(originalLoginNut));
+  }
+}
+
+/** A restriction a SQRL user asked the site to apply, through the opt= flags of a non-query command. */
+export enum SQRLRestriction {
+  /** The 'sqrlonly' option (SQRLUserOptions.useSqrlIdentityOnly): the user logs in only with SQRL. */
+  SqrlOnly = 'sqrlonly',
+
+  /** The 'hardlock' option (SQRLUserOptions.hardLockSqrlUse): no identity recovery by other means. */
+  HardLock = 'hardlock',
+}
+
+/** The SQRL options stored for a user, returned from SQRLOptionsConfig.getUserOptionsAsync. */
+export class SQRLUserOptions {
+  /** The user asked the site to allow only SQRL logins (the sqrlonly option). */
+  public useSqrlIdentityOnly: boolean = false;
+
+  /** The user asked the site not to allow identity recovery by other means (the hardlock option). */
+  public hardLockSqrlUse: boolean = false;
+}
+
+/** Configuration for SQRLOptionsEnforcer. */
+export class SQRLOptionsConfig {
+  /**
+   * Returns the user a request acts on, such as the account named in a password login or
+   * recovery form, or null if there is none. Defaults to the logged in PassportJS req.user.
+   */
+  public findRequestUserAsync?: (req: express.Request) => Promise<any | null>;
+
+  /**
+   * Returns the SQRL options stored for a user, or null if the user has no SQRL identity.
+   * Defaults to the useSqrlIdentityOnly and hardLockSqrlUse fields of the user object, as in
+   * SQRLUserRecord.
+   */
+  public getUserOptionsAsync?: (user: any) => Promise<SQRLUserOptions | null>;
+
+  /**
+   * Site-specific handling of a request restricted by the user's SQRL options. Return true to
+   * let the request proceed anyway, for example on a support staff route, or false to block it.
+   * Defaults to blocking every restricted request.
+   */
+  public policy?: (restriction: SQRLRestriction, req: express.Request, user: any) => boolean | Promise<boolean>;
+}
+
+/**
+ * ExpressJS middleware and PassportJS hooks enforcing the sqrlonly and hardlock options that
+ * users set through their SQRL clients, as stored by ISqrlIdentityStore.identAsync(). Use like:
+ *
+ * let sqrlOptions = new SQRLOptionsEnforcer(log, <SQRLOptionsConfig> {
+ *   findRequestUserAsync: req => users.findByNameAsync(req.body.username),
+ * });
+ * passport.use(sqrlOptions.restrictStrategy(new LocalStrategy(...)));
+ * app.post('/login', sqrlOptions.blockSqrlOnlyUsers, passport.authenticate('local'));
+ * app.post('/forgotPassword', sqrlOptions.blockHardLockedUsers, ...);
+ *
+ * Blocked requests are passed to the Express error handler as a SQRLRestrictedError.
+ */
+export class SQRLOptionsEnforcer {
+  private log: ILogger;
+  private config: SQRLOptionsConfig;
+
+  /**
+   * @param log ILogger implementation for logging output.
+   * @param config Optional user lookup and policy settings.
+   */
+  constructor(log: ILogger, config?: SQRLOptionsConfig) {
+    this.log = log;
+    this.config = config || new SQRLOptionsConfig();
+  }
+
+  /** Express middleware for password and other non-SQRL login routes, blocking sqrlonly users. */
+  public blockSqrlOnlyUsers = (req: express.Request, res: express.Response, next: express.NextFunction): void => {
+    this.enforce(SQRLRestriction.SqrlOnly, req, next);
+  }
+
+  /** Express middleware for security question and other account recovery routes, blocking hardlock users. */
+  public blockHardLockedUsers = (req: express.Request, res: express.Response, next: express.NextFunction): void => {
+    this.enforce(SQRLRestriction.HardLock, req, next);
+  }
+
+  /**
+   * Returns the PassportJS strategy, changed to fail the login of a user with the sqrlonly
+   * option with HTTP status 403. Use on every strategy other than SQRLStrategy, which is
+   * returned unchanged.
+   */
+  public restrictStrategy<T extends Strategy>(strategy: T): T {
+    if (strategy instanceof SQRLStrategy) {
+      return strategy;
+    }
+    let enforcer = this;
+    let authenticate = strategy.authenticate;
+    // PassportJS calls authenticate() on a per-request object deriving from the strategy,
+    // with its own success(), fail(), and error().
+    strategy.authenticate = function restrictedAuthenticate(this: Strategy, req: express.Request, options?: any): void {
+      let success = this.success;
+      this.success = (user: any, info?: any): void => {
+        enforcer.isAllowedAsync(SQRLRestriction.SqrlOnly, req, user).then(
+          allowed => allowed ? success.call(this, user, info) : this.fail({ message: 'This account only allows SQRL logins' }, 403),
+          err => this.error(err));
+      };
+      authenticate.call(this, req, options);
+    };
+    return strategy;
+  }
+
+  /**
+   * Returns whether a restriction allows a request acting on a user: true if the user's stored
+   * SQRL options do not include the restriction, else the result of SQRLOptionsConfig.policy.
+   */
+  public async isAllowedAsync(restriction: SQRLRestriction, req: express.Request, user: any): Promise<boolean> {
+    if (!user) {
+      return true;
+    }
+    let options: SQRLUserOptions | null = this.config.getUserOptionsAsync ?
+      await this.config.getUserOptionsAsync(user) :
+      <SQRLUserOptions> { useSqrlIdentityOnly: !!user.useSqrlIdentityOnly, hardLockSqrlUse: !!user.hardLockSqrlUse };
+    let restricted: boolean = !!options &&
+      (restriction === SQRLRestriction.SqrlOnly ? options.useSqrlIdentityOnly : options.hardLockSqrlUse);
+    if (!restricted) {
+      return true;
+    }
+    let allowed: boolean = this.config.policy ? await this.config.policy(restriction, req, user) : false;
+    this.log.info(`SQRLOptionsEnforcer: ${restriction} ${allowed ? 'allowed by policy' : 'blocked'} for ${req.method} ${req.originalUrl || req.url}`);
+    return allowed;
+  }
+
+  private enforce(restriction: SQRLRestriction, req: express.Request, next: express.NextFunction): void {
+    this.checkRequestAsync(restriction, req).then(
+      allowed => next(allowed ? undefined : new SQRLRestrictedError(restriction)),
+      err => next(err));
+  }
+
+  private async checkRequestAsync(restriction: SQRLRestriction, req: express.Request): Promise<boolean> {
+    let user: any = this.config.findRequestUserAsync ? await this.config.findRequestUserAsync(req) : (<any> req).user;
+    return this.isAllowedAsync(restriction, req, user);
+  }
+}
+
+/** The login status of a nut, returned in NutPollResult.status. */
+export enum NutPollStatus {
+  /** The SQRL login has not completed yet. Continue polling. */
+  Pending = 'pending',
+
+  /** The SQRL login completed and the browser session is now logged in. See NutPollResult.redirectTo. */
+  LoggedIn = 'loggedIn',
+
+  /** The login nut is too old or was forgotten by storage. Reload the login page for a new QR code. */
+  Expired = 'expired',
+
+  /** The SQRL client presented a disabled identity. The user must re-enable it with their rescue code. */
+  Disabled = 'disabled',
+
+  /**
+   * The SQRL login completed but the browser session is not logged in yet. Sent by
+   * SQRLLoginStatus.handleLoginEvents(). Make one handleLoginStatus request to log in.
+   */
+  Completed = 'completed',
+}
+
+/** The JSON response body from SQRLLoginStatus. */
+export class NutPollResult {
+  public status: NutPollStatus = NutPollStatus.Pending;
+
+  /** True when status is NutPollStatus.LoggedIn. */
+  public loggedIn: boolean = false;
+
+  /** When logged in, the URL to navigate the login page to. */
+  public redirectTo?: string;
+}
+
+/** Login state returned from INutStore.getLoginStatusAsync(). */
+export class LoginStatusInfo {
+  /** The issue time of the original QR-code nut, if known, for reporting an expired login. */
+  public issuedAt?: Date;
+
+  /** True if identityDisabledAtLoginAsync() was called for the login. */
+  public identityDisabled?: boolean;
+
+  /** True if loginCompletedAsync() was called for the login and it has not been consumed. */
+  public loginCompleted?: boolean;
+}
+
+/** Configuration for SQRLLoginStatus. */
+export class LoginStatusConfig {
+  /**
+   * The URL returned in NutPollResult.redirectTo after a login. Defaults to
+   * SQRLStrategyConfig.clientLoginSuccessUrl, or '/' if that is not set.
+   */
+  public loginSuccessRedirect?: string;
+
+  /** The Cache-Control header value for status responses. Defaults to 'no-store'. */
+  public cacheControl?: string;
+
+  /**
+   * Limits on status requests per IP address and per nut, rejected with HTTP status 429.
+   * Defaults to 300 per IP and 120 per nut per 60 seconds, allowing a login page to poll
+   * every second. maxRequestsPerIdentity does not apply.
+   */
+  public rateLimits?: RateLimitConfig;
+
+  /**
+   * The interval between keep-alive comments on handleLoginEvents() streams. Each also rechecks
+   * the login in storage, so logins completed on other servers are found even without a shared
+   * ILoginEventPubSub. Defaults to 20 seconds.
+   */
+  public eventKeepAliveSeconds?: number;
+}
+
+/**
+ * ExpressJS middleware for a login page polling for the completion of its SQRL login.
+ * Responds with a NutPollResult JSON body, and on completion logs in the browser session
+ * with the PassportJS req.logIn(), so it must follow the passport.initialize() and
+ * passport.session() middleware. Use like:
+ *
+ * let loginStatus = new SQRLLoginStatus(nutStore, log, sqrlConfig);
+ * app.get('/pollNut/:nut', loginStatus.handleLoginStatus);
+ * app.get('/loginEvents/:nut', loginStatus.handleLoginEvents);
+ *
+ * The nut is read from the route parameters, the body, or the query string, in that order.
+ */
+export class SQRLLoginStatus {
+  private nutStore: INutStore;
+  private log: ILogger;
+  private config: SQRLStrategyConfig;
+  private statusConfig: LoginStatusConfig;
+  private nutCodec?: EncryptedNutCodec;
+  private rateLimiter: RateLimiter;
+
+  /**
+   * @param nutStore The INutStore (or ISQRLIdentityStorage) shared with the SQRL API handler.
+   * @param log ILogger implementation for logging output.
+   * @param config The configuration shared with the SQRL API handler, for nut decoding
+   *   and expiry.
+   * @param statusConfig Optional settings for status responses.
+   */
+  constructor(nutStore: INutStore, log: ILogger, config: SQRLStrategyConfig, statusConfig?: LoginStatusConfig) {
+    this.nutStore = nutStore;
+    this.log = log;
+    this.config = config;
+    this.statusConfig = statusConfig || new LoginStatusConfig();
+    if (config.encryptedNutKey) {
+      this.nutCodec = new EncryptedNutCodec(config.encryptedNutKey);
+    }
+    let rateLimits: RateLimitConfig = this.statusConfig.rateLimits || new RateLimitConfig();
+    this.rateLimiter = new RateLimiter(<RateLimitConfig> {
+      maxRequestsPerIdentity: 0,
+      maxRequestsPerIp: valueOrDefault(rateLimits.maxRequestsPerIp, 300),
+      maxRequestsPerNut: valueOrDefault(rateLimits.maxRequestsPerNut, 120),
+      store: rateLimits.store,
+      windowSeconds: rateLimits.windowSeconds,
+    }, log);
+  }
+
+  /** The Express middleware handler. */
+  public handleLoginStatus = async (req: express.Request, res: express.Response): Promise<void> => {
+    res.setHeader('Cache-Control', this.statusConfig.cacheControl || 'no-store');
+    let nut: string | undefined = getRequestNut(req);
+    if (!nut) {
+      res.statusCode = 400;
+      res.send('Missing SQRL nut');
+      return;
+    }
+
+    let result: NutPollResult;
+    try {
+      await this.checkRateLimitAsync(req, nut);
+      result = await this.getLoginStatusAsync(req, nut);
+    } catch (err) {
+      this.sendError(res, nut, err);
+      return;
+    }
+    this.log.finest(() => `SQRLLoginStatus: Nut ${nut}: ${result.status}`);
+    res.json(result);
+  }
+
+  /**
+   * Express handler for a Server-Sent Events stream pushing the login status of a nut, in place
+   * of polling handleLoginStatus. Sends one 'status' event with a NutPollResult once the status
+   * is no longer pending, then ends the stream. On a NutPollStatus.Completed status the page makes
+   * one handleLoginStatus request to log in its session, as the session cookie cannot be set on
+   * the already started stream. Logins are pushed by the SQRLStrategyConfig.loginEventBus.
+   */
+  public handleLoginEvents = async (req: express.Request, res: express.Response): Promise<void> => {
+    res.setHeader('Cache-Control', this.statusConfig.cacheControl || 'no-store');
+    let nut: string | undefined = getRequestNut(req);
+    if (!nut) {
+      res.statusCode = 400;
+      res.send('Missing SQRL nut');
+      return;
+    }
+    try {
+      await this.checkRateLimitAsync(req, nut);
+    } catch (err) {
+      this.sendError(res, nut, err);
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('X-Accel-Buffering', 'no');  // Disable proxy buffering in nginx
+    res.write(':\n\n');
+
+    let loginNut: ILoginNut | null = decodeLoginNut(this.nutCodec, nut);
+    let finished = false;
+    let unsubscribe = (): void => { /* Replaced on subscribe */ };
+    let keepAliveTimer: NodeJS.Timer | undefined;
+    let finish = (result?: NutPollResult): void => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      unsubscribe();
+      if (keepAliveTimer) {
+        clearInterval(keepAliveTimer);
+      }
+      if (result) {
+        this.log.finest(() => `SQRLLoginStatus: Nut ${nut} event: ${result.status}`);
+        res.write(`event: status\ndata: ${JSON.stringify(result)}\n\n`);
+      }
+      res.end();
+    };
+    let checkStatus = (): void => {
+      if (!loginNut) {
+        finish(<NutPollResult> { loggedIn: false, status: NutPollStatus.Expired });
+        return;
+      }
+      this.getUnconsumedLoginStatusAsync(loginNut).then(
+        result => {
+          if (result.status !== NutPollStatus.Pending) {
+            finish(result);
+          }
+        },
+        err => {
+          // End without an event, leaving the page to fall back to polling.
+          this.log.debug(`SQRLLoginStatus: Nut ${nut}: Error checking login status: ${err}`);
+          finish();
+        });
+    };
+
+    try {
+      req.on('close', () => finish());
+      if (loginNut) {
+        // Subscribe before the first check so that a login completing in between is not missed.
+        unsubscribe = (this.config.loginEventBus || defaultLoginEventBus).subscribe(loginNut.originalLoginNut, checkStatus);
+      }
+      let keepAliveSeconds: number = valueOrDefault(this.statusConfig.eventKeepAliveSeconds, 20);
+      keepAliveTimer = setInterval(() => {
+        res.write(':\n\n');
+        checkStatus();
+      }, keepAliveSeconds * 1000);
+      checkStatus();
+    } catch (err) {
+      // The stream has started, so end it without an event, leaving the page to fall back to polling.
+      this.log.debug(`SQRLLoginStatus: Nut ${nut}: Error starting login events: ${err}`);
+      finish();
+    }
+  }
+
+  private async checkRateLimitAsync(req: express.Request, nut: string): Promise<void> {
+    let requesterIp: string | undefined = this.config.getRequesterIp ? this.config.getRequesterIp(req) : req.ip;
+    await this.rateLimiter.checkAsync(requesterIp, undefined, nut);
+  }
+
+  private sendError(res: express.Response, nut: string, err: any): void {
+    let httpStatusCode: number = err instanceof SQRLError ? err.httpStatusCode : 500;
+    this.log.debug(`SQRLLoginStatus: Nut ${nut}: Error ${httpStatusCode}: ${err}`);
+    res.statusCode = httpStatusCode;
+    res.send(httpStatusCode === 500 ? 'Error getting SQRL login status' : err.message);
+  }
+
+  private async getLoginStatusAsync(req: express.Request, nut: string): Promise<NutPollResult> {
+    let loginNut: ILoginNut | null = decodeLoginNut(this.nutCodec, nut);
+    if (!loginNut) {
+      return <NutPollResult> { loggedIn: false, status: NutPollStatus.Expired };
+    }
+    let originalLoginNut = loginNut.originalLoginNut;
+
+    let user: any = await callStorageAsync(() => this.nutStore.consumeCompletedLoginAsync(originalLoginNut));
+    if (user) {
+      this.log.debug(`SQRLLoginStatus: Nut ${nut} logged in, logging in session`);
+      await new Promise<void>((resolve, reject) => {
+        if (typeof req.logIn !== 'function') {
+          reject(new Error('SQRLLoginStatus requires the PassportJS middleware to log in the session'));
+          return;
+        }
+        req.logIn(user, err => err ? reject(err) : resolve());
+      });
+      return <NutPollResult> {
+        loggedIn: true,
+        redirectTo: this.statusConfig.loginSuccessRedirect || this.config.clientLoginSuccessUrl || '/',
+        status: NutPollStatus.LoggedIn,
+      };
+    }
+    return await this.getUnconsumedLoginStatusAsync(loginNut);
+  }
+
+  /** Returns the status of a login without consuming a completed login. */
+  private async getUnconsumedLoginStatusAsync(loginNut: ILoginNut): Promise<NutPollResult> {
+    let originalLoginNut = loginNut.originalLoginNut;
+    let statusInfo: LoginStatusInfo | null =
+        await callStorageAsync(() => this.nutStore.getLoginStatusAsync(originalLoginNut));
+    if (statusInfo && statusInfo.loginCompleted) {
+      return <NutPollResult> { loggedIn: false, status: NutPollStatus.Completed };
+    }
+    if (statusInfo && statusInfo.identityDisabled) {
+      return <NutPollResult> { loggedIn: false, status: NutPollStatus.Disabled };
+    }
+
+    // Storage forgetting a storage nut means it timed out. Encrypted nuts carry their own issue time.
+    let issuedAt: Date | undefined = loginNut.issuedAt || (statusInfo ? statusInfo.issuedAt : undefined);
+    if ((!statusInfo && !loginNut.issuedAt) || (issuedAt && this.isExpired(issuedAt))) {
+      return <NutPollResult> { loggedIn: false, status: NutPollStatus.Expired };
+    }
+    return <NutPollResult> { loggedIn: false, status: NutPollStatus.Pending };
+  }
+
+  private isExpired(issuedAt: Date): boolean {
+    let maxAgeSeconds: number = valueOrDefault(this.config.qrCodeNutMaxAgeSeconds, defaultQrCodeNutMaxAgeSeconds);
+    return (Date.now() - new Date(<any> issuedAt).getTime()) / 1000 > maxAgeSeconds;
+  }
+}
+
+/** The original QR-code nut of a login, with its issue time when carried in an encrypted nut. */
+interface ILoginNut {
+  originalLoginNut: string;
+  issuedAt?: Date;
+}
+
+/**
+ * Returns the original QR-code nut for an encrypted nut, or null for a nut that fails to
+ * decrypt. Storage nuts are returned unchanged for the storage layer to resolve.
+ */
+function decodeLoginNut(nutCodec: EncryptedNutCodec | undefined, nut: string): ILoginNut | null {
+  if (!nutCodec) {
+    return { originalLoginNut: nut };
+  }
+  let contents: EncryptedNutContents | null = nutCodec.decode(nut);
+  if (!contents || (!contents.isQrCodeNut && !contents.originalLoginNut)) {
+    return null;
+  }
+  if (contents.isQrCodeNut) {
+    return { originalLoginNut: nut, issuedAt: contents.issuedAt };
+  }
+
+  // The issue time of the original nut is in that nut.
+  let originalContents: EncryptedNutContents | null = nutCodec.decode(<string> contents.originalLoginNut);
+  return {
+    issuedAt: originalContents ? originalContents.issuedAt : undefined,
+    originalLoginNut: <string> contents.originalLoginNut,
+  };
+}
+
+/**
+ * Carries login events between servers for LoginEventBus. Implement over e.g. Redis PUBLISH and
+ * SUBSCRIBE on one channel to push logins completed on any server to event streams on all.
+ */
+export interface ILoginEventPubSub {
+  /** Publishes a message to the handlers on every server, including this one. */
+  publishAsync(message: string): Promise<void>;
+
+  /** Registers a handler for messages published from any server. Called once by LoginEventBus. */
+  subscribe(handler: (message: string) => void): void;
+}
+
+/** An ILoginEventPubSub delivering messages within this process, for single server sites. */
+export class MemoryLoginEventPubSub implements ILoginEventPubSub {
+  private handlers: Array<(message: string) => void> = [];
+
+  public publishAsync(message: string): Promise<void> {
+    this.handlers.forEach(handler => handler(message));
+    return Promise.resolve();
+  }
+
+  public subscribe(handler: (message: string) => void): void {
+    this.handlers.push(handler);
+  }
+}
+
+/**
+ * Delivers login status changes published by the SQRL API handlers to the
+ * SQRLLoginStatus.handleLoginEvents() streams waiting on each login. Set in
+ * SQRLStrategyConfig.loginEventBus.
+ */
+export class LoginEventBus {
+  private pubSub: ILoginEventPubSub;
+  private subscribers = new Map<string, Array<(status: NutPollStatus) => void>>();  // By original login nut
+
+  /** @param pubSub Carries events between servers. Defaults to a MemoryLoginEventPubSub. */
+  constructor(pubSub?: ILoginEventPubSub) {
+    this.pubSub = pubSub || new MemoryLoginEventPubSub();
+    this.pubSub.subscribe(message => this.dispatch(message));
+  }
+
+  /** Publishes a status change for a login to subscribers on all servers. */
+  public publishAsync(originalLoginNut: string, status: NutPollStatus): Promise<void> {
+    return this.pubSub.publishAsync(JSON.stringify({ nut: originalLoginNut, status: status }));
+  }
+
+  /** Registers a handler for status changes of a login, returning a function that removes it. */
+  public subscribe(originalLoginNut: string, handler: (status: NutPollStatus) => void): () => void {
+    let loginHandlers: Array<(status: NutPollStatus) => void> = this.subscribers.get(originalLoginNut) || [];
+    this.subscribers.set(originalLoginNut, loginHandlers);
+    loginHandlers.push(handler);
+    return () => {
+      let index: number = loginHandlers.indexOf(handler);
+      if (index >= 0) {
+        loginHandlers.splice(index, 1);
+      }
+      if (loginHandlers.length === 0 && this.subscribers.get(originalLoginNut) === loginHandlers) {
+        this.subscribers.delete(originalLoginNut);
+      }
+    };
+  }
+
+  private dispatch(message: string): void {
+    let event: any;
+    try {
+      event = JSON.parse(message);
+    } catch (err) {
+      return;  // Not ours
+    }
+    let handlers = event && typeof event.nut === 'string' ? this.subscribers.get(event.nut) : undefined;
+    if (handlers) {
+      handlers.slice().forEach(handler => handler(event.status));
+    }
+  }
+}
+
+/** The bus shared in-process by SQRL API handlers and SQRLLoginStatus without a configured one. */
+const defaultLoginEventBus = new LoginEventBus();
+
+/** Returns the nut from the route parameters, body, or query string, in that order. */
+function getRequestNut(req: express.Request): string | undefined {
+  let sources: any[] = [req.params, req.body, req.query];
+  for (let source of sources) {
+    if (source && typeof source.nut === 'string' && source.nut) {
+      return source.nut;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Encapsulates the parameters that are needed to resolve a SQRL API call.
+ * Exported for unit testing but not intended to be used directly.
+ */
+export class AuthenticateAsyncResult {
+  /**
+   * The user profile for return to PassportJS.
+   * This field is expected to be null for a SQRL 'query' command.
+   */
+  public user?: any;
+
+  /** base64url encoded response fields for return in the API response body. */
+  public body?: string;
+
+  public httpResponseCode: number = 500;
+}
+
+/** A SQRL URL and its contained nut, broken out to separate fields for varying purposes. */
+export class UrlAndNut {
+  /**
+   * For a nut sent in a QR code, the full SQRL URL. For a follow-up nut sent in an
+   * API response, the relative URL sent in the qry= response field.
+   */
+  public url: string;
+  public nut: string | Buffer;
+  public nutString: string;
+
+  /**
+   * For a follow-up nut sent in an API response, the base64url encoded response body
+   * containing the nut. The client presents this value in the server= field of its next
+   * request, and it must be stored with the nut for later verification.
+   */
+  public serverResponseBody?: string;
+
+  /**
+   * The IP address of the browser that requested the login page showing the original
+   * QR-code nut, if known. Compared with the IP of later SQRL API calls to set
+   * TIFFlags.IPAddressesMatch.
+   */
+  public requesterIp?: string;
+
+  /** When the nut was created, for enforcing the nut maximum ages in SQRLStrategyConfig. */
+  public issuedAt: Date;
+
+  constructor(url: string, nut: string | Buffer, nutString: string) {
+    this.url = url;
+    this.nut = nut;
+    this.nutString = nutString;
+    this.issuedAt = new Date();
+  }
+}
+
+/**
+ * Parameters derived from the POST or GET parameters to the SQRL auth route.
+ * This information gets passed to the query, ident, disable, enable, and remove
+ * callbacks to the auth implementation. The public keys provided here have
+ * already been validated against the private key and the nut and URL signatures.
+ *
+ * See https://www.grc.com/sqrl/protocol.htm particularly "How to form the POST verb's body."
+ */
+export class ClientRequestInfo {
+  /**
+   * The SQRL protocol revision used for this request: the highest revision in
+   * clientProtocolVersions that is also supported by the server.
+   */
+  public protocolVersion: number = 1;
+
+  /** The SQRL protocol revisions supported by the client, from its ver= field. */
+  public clientProtocolVersions: number[] = [];
+
+  /**
+   * The requested SQRL operation. One of the various SQRL client commands
+   * (https://www.grc.com/sqrl/semantics.htm):
+   *   'query' - initial identity validation to a site, or a later round of attempt to find a previous
+   *             identity key that the server recognizes;
+   *   'ident' - requests the server to accept the user's identity.
+   *   'disable' - requests the server to disable the user's identity, typically for reasons
+   *               of potential hacking;
+   *   'enable' - reverse of 'disable'
+   *   'remove' - requests the server to remove the user's identity (which must have previously been
+   *              disabled) from the server's identity store.
+   */
+  public sqrlCommand?: string;
+
+  /**
+   * The nut value presented to the server. This could come from an original
+   * QR code URL on a first SQRL 'query' command, or a follow-up URL handed
+   * back to the client on a query or other response.
+   * 
+   * Typically this value is used (a) as a layer of security to verify that
+   * the client is not just making up random plausible nut values but in fact
+   * is returning a nut generated by this server (or server cluster), and (b)
+   * to provide a chain of nut values leading from a QR code to an eventual
+   * login, for supporting auto-login flows. See doc comments on
+   * INutStore nutIssuedToClientAsync() and consumeNutAsync().
+   */
+  public nut?: string;
+
+  /**
+   * The primary identity public key that the client wishes to use to contact this
+   * server in the future. It may not correspond to a public key previously received
+   * at this server if previously presented - but now deprecated - public keys are
+   * presented one per 'query' command in previousIdentityPublicKey.
+   * 
+   * This value is a SQRL-base64 (base64 minus any tail '=' padding characters) string.
+   * Use the primaryIdentityPublicKeyBuf() function to retrieve a Buffer version of this string.
+   * 
+   * This public key has been successfully validated against the corresponding client-provided
+   * signature in the request.
+   */
+  public primaryIdentityPublicKey?: string;
+
+  /**
+   * Optional previous identity public key that the client wishes to deprecate
+   * in favor of the public key presented in primaryIdentityPublicKey. Typically
+   * this value is absent since identity changes are intended to be rare amongst
+   * SQRL clients.
+   */
+  public previousIdentityPublicKey?: string;
+
+  /**
+   * The public part of an identity key pair that must be retained by the server and
+   * passed back to the client if it needs to perform an identity re-keying operation.
+   * 
+   * See the server unlock protocol discussion at https://www.grc.com/sqrl/idlock.htm .
+   */
+  public serverUnlockPublicKey?: string;
+
+  /**
+   * The public part of a key that must be retained by the server and used to verify
+   * the signature of any possible future Unlock Request.
+   * 
+   * See the server unlock protocol discussion at https://www.grc.com/sqrl/idlock.htm .
+   */
+  public serverVerifyUnlockPublicKey?: string;
+
+  /**
+   * The client's optional Unlock Request Signature ('urs=' request field), a base64url
+   * signature of the client and server fields made with the Unlock Request Signing Key.
+   * See https://www.grc.com/sqrl/idlock.htm .
+   */
+  public unlockRequestSignature?: string;
+
+  /**
+   * True when unlockRequestSignature has been verified against the Server Verify Unlock Key
+   * stored for the identity being unlocked (see ISqrlIdentityStore.getServerVerifyUnlockKeyAsync()).
+   * Always true for 'enable' and 'remove' commands and for an 'ident' replacing a known
+   * previous identity, which are refused without a valid signature.
+   */
+  public unlockRequestSignatureVerified: boolean = false;
+
+  /**
+   * Optional field sent by the client (in its 'ins=' field) providing
+   * a hash of the server-sent value (in the server's 'sin=' field) using
+   * the primary identity key. Present whenever secretIndex is present.
+   */
+  public indexSecret?: string;
+
+  /**
+   * Optional field sent by the client (in its 'pins=' field) providing
+   * a hash of the server-sent value (in the server's 'sin=' field) using
+   * the deprecated identity key (if any) specified in this client request's
+   * previousIdentityPublicKey ('pidk=') field. Present whenever both secretIndex
+   * and previousIdentityPublicKey are present.
+   */
+  public previousIndexSecret?: string;
+
+  /**
+   * The value sent to the client in the sin= field of the previous response
+   * (see AuthCompletionInfo.secretIndex), which indexSecret and previousIndexSecret
+   * were derived from. Undefined if no secret index was requested.
+   */
+  public secretIndex?: string;
+  
+  /**
+   * Optional flag from the client ('sqrlonly' in its opt= option flag list, see
+   * https://www.grc.com/sqrl/semantics.htm) in a non-query command, requesting
+   * that the server disable other allowed authentication methods in favor of only SQRL.
+   * The server should ignore this field value in query commands, so SQRLProtocolV1Handler
+   * clears it in query commands before calling storage. See SQRLOptionsEnforcer.
+   */
+  public useSqrlIdentityOnly: boolean = false;
+
+  /**
+   * Optional flag from the client ('hardlock' in its opt= option flag list, see
+   * https://www.grc.com/sqrl/semantics.htm) in a non-query command, requesting
+   * that the server disable security question style alternate identity recovery methods.
+   * The server should ignore this field value in query commands, so SQRLProtocolV1Handler
+   * clears it in query commands before calling storage. See SQRLOptionsEnforcer.
+   */
+  public hardLockSqrlUse: boolean = false;
+
+  /**
+   * Optional flag from the client ('cps' in its opt= option flag list, see
+   * https://www.grc.com/sqrl/semantics.htm) in an 'ident' command, requesting
+   * that the server return in a url= response the logged-in URL that a client-side
+   * plugin should redirect to after login is completed.
+   */
+  public clientProvidedSession: boolean = false;
+
+  /**
+   * Optional flag from the client ('suk' in its opt= option flag list, see
+   * https://www.grc.com/sqrl/semantics.htm) in a query command, requesting
+   * that the server return its stored Session Unlock Key value to the client
+   * so it can issue a re-key request.
+   */
+  public returnSessionUnlockKey: boolean = false;
+
+  /**
+   * Optional flag from the client ('noiptest' in its opt= option flag list, see
+   * https://www.grc.com/sqrl/semantics.htm) requesting that the server not compare
+   * the IP address of this request with the login page requester IP. When set,
+   * ipAddressesMatch is false and TIFFlags.IPAddressesMatch is not returned.
+   */
+  public skipIpAddressTest: boolean = false;
+
+  /** The IP address of the SQRL client making this request, if known. */
+  public requesterIp?: string;
+
+  /**
+   * True when requesterIp matches the IP address of the browser that requested the
+   * login page showing the original QR-code nut (see UrlAndNut.requesterIp).
+   */
+  public ipAddressesMatch: boolean = false;
+
+  /**
+   * Optional client information (the 'btn=' information field) containing the
+   * user's response to a previously presented server "ask" presented to the client.
+   * This value, if presemt, is 1, 2, or 3 corresponding the ask selection buttons
+   * 1 or 2, or 3 for the question having been dismissed without answering.
+   */
+  public serverAskResponseSelection?: number;
+
+  /**
+   * The dialog sent to the client in the ask= field of the previous response
+   * (see AuthCompletionInfo.ask), which serverAskResponseSelection answers.
+   * Undefined if no dialog was sent.
+   */
+  public serverAsk?: AskMessage;
+
+  /**
+   * A new nut that will be returned in the nut= server response.
+   * The auth handler should store this nut in its "Recently Issued Nuts"
+   * cache to allow responding to NutCheckCallback calls.
+   */
+  public nextNut?: string;
+
+  /**
+   * The relative URL to be passed back in the qry= server response field for
+   * the next communication from the client.
+   */
+  public nextUrl?: string;
+
+  /**
+   * For a successful 'ident' with the cps option, the url= response value: the configured
+   * clientLoginSuccessUrl with a one-time login token added for SQRLStrategy.
+   */
+  public clientLoginSuccessUrl?: string;
+
+  /** Provides a Buffer version of primaryIdentityPublicKey. */
+  public primaryIdentityPublicKeyBuf(): Buffer | null {
+    if (this.primaryIdentityPublicKey) {
+      return Buffer.from(this.primaryIdentityPublicKey, 'base64');
+    }
+    return null;
+  }
+}
+
+/** Provided to the SQRL strategy constructor to provide configuration information. */
+export class SQRLStrategyConfig {
+  /** Provides the domain name to use in generating SQRL URLs to send to clients. */
+  public localDomainName: string = 'please-configure-me.com';
+
+  /** The port. If not specified the URL will not include one and the browser will use the appropriate default. */
+  public port?: number;
+
+  /**
+   * The URL path to the site's login route that receives the SQRL
+   * client's HTTP POST, used for generating SQRL URLs. Typically
+   * you set this to the same string as the route used to wire up
+   * the SQRL passport strategy.
+   */
+  public urlPath?: string;
+
+  /**
+   * The length of the urlPath (including an implicit '/' prefix)
+   * that the SQRL client should include in its hash calculations
+   * when generating a per-site key pair. This does not need to be
+   * specified if the base domain name is sufficient as a site key.
+   * It should be specified if the URL path includes a portion
+   * that produces the semantics of a separate site, e.g. on GitHub
+   * the /username or /username/reponame if a unique key is needed
+   * for such paths.
+   */
+  public domainExtension?: number;
+
+  /**
+   * An optional "nut" generator. When undefined, a cryptographically
+   * strong random value is generated. When defined,
+   * the configured callback can generate any desired "nut" including
+   * values from the request (e.g. client IP, datetime, and
+   * so on - see the "pre-login state" section at
+   * https://www.grc.com/sqrl/server.htm). The callback receives the web
+   * framework's native request: an express.Request for SQRLExpress, a Koa
+   * context for SQRLKoa, a Fastify request for SQRLFastify, or an
+   * http.IncomingMessage for SQRLNodeHttp.
+   * 
+   * When a Buffer is returned, the byte values of the buffer are
+   * converted to a base64 string, minus any appended '=' characters,
+   * as part of composing the URL.
+   */
+  public nutGenerator?: (req: any) => string | Buffer;
+
+  /**
+   * An optional 256-bit key that selects the built-in encrypted nut format instead of
+   * nutGenerator. Each nut is AES-256-GCM encrypted and authenticated, and contains its
+   * issue time, the requester IP, a counter, and for follow-up nuts a link to the original
+   * QR-code nut plus a digest of the response body it was sent in (see EncryptedNutCodec).
+   * SQRLEngine then checks nut authenticity, expiry, and lineage itself and does not call
+   * INutStore consumeNutAsync() or nutIssuedToClientAsync() for API calls. Each nut is
+   * still single-use, tracked in usedNutStore until it expires.
+   * 
+   * All servers in a cluster must share the same key, which should be supplied from a
+   * real secret store.
+   */
+  public encryptedNutKey?: Buffer;
+
+  /**
+   * Records the encrypted nuts used by client requests, to reject replayed requests when
+   * encryptedNutKey is set. Defaults to a MemoryUsedNutStore shared within the process.
+   * Use a shared store for a server cluster.
+   */
+  public usedNutStore?: IUsedNutStore;
+
+  /**
+   * The maximum age of a QR-code nut from the login page, after which SQRL API calls
+   * presenting it are rejected with TIFFlags.TransientError. The client may retry using
+   * the nut in the error response, but the login page reports the login as expired, so
+   * the user must reload it to log in. Defaults to one hour.
+   */
+  public qrCodeNutMaxAgeSeconds?: number;
+
+  /**
+   * The maximum age of a follow-up nut sent in a SQRL API response, after which calls
+   * presenting it are rejected with TIFFlags.TransientError. The client may retry using
+   * the nut in the error response. Defaults to ten minutes.
+   */
+  public followUpNutMaxAgeSeconds?: number;
+
+  /**
+   * An optional override for determining the requester IP address recorded with
+   * issued nuts and compared for TIFFlags.IPAddressesMatch. The callback receives the
+   * web framework's native request, as for nutGenerator. When undefined, the framework's
+   * request IP is used: req.ip for ExpressJS, which honors the Express 'trust proxy' setting
+   * for sites behind a reverse proxy or load balancer, ctx.ip for Koa, request.ip for Fastify,
+   * and the socket address for SQRLNodeHttp.
+   */
+  public getRequesterIp?: (req: any) => string | undefined;
+
+  /**
+   * When true, an 'ident' command is refused with TIFFlags.CommandFailed if the SQRL
+   * client's IP address does not match the IP of the browser that requested the
+   * login page, unless the client sent the 'noiptest' option. This protects
+   * against a login page being relayed to a victim from an attacker's browser,
+   * but also refuses legitimate logins from a phone on a different network.
+   */
+  public refuseIdentOnIpMismatch?: boolean;
+
+  /**
+   * The URL, typically a relative URL on the site, where the client
+   * should redirect on a successful login. This is used in response
+   * to SQRL commands other than 'query' that specify the cps
+   * (client-provided session) option asking for a success redirect.
+   * It is sent to the client in the url= response parameter
+   * (see https://www.grc.com/sqrl/semantics.htm). After an 'ident' the
+   * URL carries a one-time cpsToken query parameter, which the route must
+   * pass to passport.authenticate('sqrl') to log in the browser.
+   */
+  public clientLoginSuccessUrl?: string;
+
+  /**
+   * Optional 302 redirect that a same-device (browser plugin) SQRL
+   * client can use to redirect the client if the user cancels
+   * the authentication flow. This value is encoded in the can=
+   * body field (see https://www.grc.com/sqrl/semantics.htm).
+   */
+  public clientCancelAuthUrl?: string;
+
+  /**
+   * Optional handlers for SQRL protocol revisions in addition to the built-in revision 1
+   * handler, or replacing it if one has a protocolVersion of 1. The server advertises
+   * the revisions of all handlers in its ver= response field, and each request is handled
+   * using the highest revision supported by both the client and the server.
+   */
+  public protocolHandlers?: ISQRLProtocolHandler[];
+
+  /**
+   * Optional limits on SQRL API request rates, applied before signature verification
+   * and storage calls. When undefined, the RateLimitConfig defaults are used.
+   */
+  public rateLimits?: RateLimitConfig;
+
+  /**
+   * Optional Ed25519 signature verifier for client request signatures. Defaults to a
+   * NodeCryptoSignatureVerifier. TweetNaclSignatureVerifier is a pure JavaScript alternative.
+   */
+  public signatureVerifier?: ISignatureVerifier;
+
+  /**
+   * The maximum size of a SQRL API request body read and parsed by the SQRL API handlers,
+   * above which requests are rejected with HTTP status 413. Defaults to 16 KB, well above
+   * the size of any valid SQRL request. Bodies parsed by a host body parser middleware are
+   * subject to that middleware's limit instead.
+   */
+  public maxRequestBodyBytes?: number;
+
+  /**
+   * Pushes login completions from the SQRL API handlers to SQRLLoginStatus.handleLoginEvents()
+   * streams. Defaults to a bus shared within the process. For a server cluster, create a
+   * LoginEventBus over a shared ILoginEventPubSub and set it in every server's configuration.
+   */
+  public loginEventBus?: LoginEventBus;
+
+  /**
+   * Stores the one-time tokens added to clientLoginSuccessUrl for the cps option until
+   * SQRLStrategy redeems them. Defaults to a MemoryCpsTokenStore shared within the process.
+   * Use a shared store for a server cluster.
+   */
+  public cpsTokenStore?: ICpsTokenStore;
+
+  /** The time a cps login token can be redeemed after it is issued. Defaults to 60 seconds. */
+  public cpsTokenMaxAgeSeconds?: number;
+}
+
+/** Verifies the Ed25519 signatures on SQRL client requests. */
+export interface ISignatureVerifier {
+  /**
+   * Returns true if the signature is a valid Ed25519 signature of the message by the public key.
+   * Returns false, rather than throwing, for a malformed signature or key.
+   * @param message The signed data.
+   * @param signature The 64-byte signature.
+   * @param publicKey The 32-byte public key.
+   */
+  verify(message: Buffer, signature: Buffer, publicKey: Buffer): boolean;
+}
+
+/** The default ISignatureVerifier, using the Ed25519 support built into the Node crypto module. */
+export class NodeCryptoSignatureVerifier implements ISignatureVerifier {
+  /** The DER SubjectPublicKeyInfo header preceding a raw Ed25519 public key (RFC 8410). */
+  private static readonly spkiPrefix: Buffer = Buffer.from('302a300506032b6570032100', 'hex');
+
+  public verify(message: Buffer, signature: Buffer, publicKey: Buffer): boolean {
+    try {
+      let key: crypto.KeyObject = crypto.createPublicKey({
+        format: 'der',
+        key: Buffer.concat([NodeCryptoSignatureVerifier.spkiPrefix, publicKey]),
+        type: 'spki',
+      });
+      // @types/node 12 declares the result a Buffer, but Node returns a boolean.
+      return <boolean> <unknown> crypto.verify(null, message, key, signature);
+    } catch {
+      return false;
+    }
+  }
+}
+
+/** A pure JavaScript ISignatureVerifier using TweetNaCl, for runtimes without Node crypto Ed25519. */
+export class TweetNaclSignatureVerifier implements ISignatureVerifier {
+  public verify(message: Buffer, signature: Buffer, publicKey: Buffer): boolean {
+    try {
+      return nacl.sign.detached.verify(message, signature, publicKey);
+    } catch {
+      return false;
+    }
+  }
+}
+
+const defaultSignatureVerifier: ISignatureVerifier = new NodeCryptoSignatureVerifier();
+
+/**
+ * Limits on SQRL API request rates. Requests are counted per client IP address, per identity
+ * key (idk=), and per nut in fixed time windows, and requests over any limit are rejected
+ * with RateLimitExceededError. A limit of 0 disables that limit.
+ */
+export class RateLimitConfig {
+  /** The length of the counting window. Defaults to 60 seconds. */
+  public windowSeconds?: number;
+
+  /**
+   * The maximum requests per window from one IP address (see SQRLStrategyConfig.getRequesterIp).
+   * Defaults to 120. Sites behind a proxy must configure Express 'trust proxy' or getRequesterIp
+   * so that all requests are not counted against the proxy's address.
+   */
+  public maxRequestsPerIp?: number;
+
+  /** The maximum requests per window presenting one identity key. Defaults to 30. */
+  public maxRequestsPerIdentity?: number;
+
+  /** The maximum requests per window presenting one nut. Defaults to 10. */
+  public maxRequestsPerNut?: number;
+
+  /**
+   * The store for request counts. Defaults to a MemoryRateLimitStore, which counts
+   * requests per process. Use a shared store to apply limits across a server cluster.
+   */
+  public store?: IRateLimitStore;
+}
+
+/** Counts requests per key in fixed time windows, for SQRL API rate limiting. */
+export interface IRateLimitStore {
+  /**
+   * Increments the request count for a key within the current fixed window of the given
+   * length, and returns the new count. A shared store can implement this with e.g. a
+   * Redis INCR and EXPIRE on a key that includes the window start time.
+   */
+  incrementAsync(key: string, windowSeconds: number): Promise<number>;
+}
+
+/** Data class containing information about a nut from identity storage. */
+export class NutInfo {
+  /** The unique nut nonce generated and sent to a client. */
+  public nut?: string;
+  
+  /** The nut value from an original QR code, for backtracking from this later nut. */
+  public originalLoginNut?: string;
+
+  /** The UrlAndNut.url value stored with the nut. For an original QR code nut, the full SQRL URL. */
+  public url?: string;
+
+  /** The UrlAndNut.serverResponseBody value stored with the nut, for follow-up nuts. */
+  public serverResponseBody?: string;
+
+  /** The UrlAndNut.requesterIp value stored with the nut. */
+  public requesterIp?: string;
+
+  /** The UrlAndNut.issuedAt value stored with the nut. */
+  public issuedAt?: Date;
+
+  /**
+   * Set by INutStore.consumeNutAsync() when the nut had already been used,
+   * to the request fingerprint recorded when it was first used.
+   */
+  public consumedByRequest?: string;
+}
+
+const defaultQrCodeNutMaxAgeSeconds = 3600;
+const defaultFollowUpNutMaxAgeSeconds = 600;
+const defaultCpsTokenMaxAgeSeconds = 60;
+const defaultMaxRequestBodyBytes = 16384;
+
+/** The clientLoginSuccessUrl query parameter carrying a cps login token. */
+const cpsTokenParamName = 'cpsToken';
+
+/** Limits the size of a client's ver= range, which is expanded during version negotiation. */
+const maxVersionRangeLength = 1000;
+
+/** The information packed into a built-in encrypted nut. See EncryptedNutCodec. */
+export class EncryptedNutContents {
+  /** True for a nut issued in a QR-code SQRL URL, false for a follow-up nut issued in an API response. */
+  public isQrCodeNut: boolean = false;
+
+  /** The time the nut was issued, to one second precision. */
+  public issuedAt: Date = new Date(0);
+
+  /** A 32-bit counter value incremented for each nut issued by a server. */
+  public counter: number = 0;
+
+  /** The IP address of the requester the nut was issued to, if known. */
+  public requesterIp?: string;
+
+  /** For a follow-up nut, EncryptedNutCodec.responseDigest() of the response body the nut was issued in. */
+  public serverResponseDigest?: Buffer;
+
+  /** For a follow-up nut, the QR-code nut at the start of the login. */
+  public originalLoginNut?: string;
+}
+
+/**
+ * Creates and decodes the built-in encrypted nut format enabled with
+ * SQRLStrategyConfig.encryptedNutKey. Nuts are AES-256-GCM encrypted with a random
+ * 96-bit IV, so tampered or forged nuts fail authentication on decode.
+ * Public for unit testing.
+ * 
+ * Plaintext layout:
+ *   1 byte flags (0x01 = QR-code nut)
+ *   4 bytes issue time in seconds since the epoch, big-endian
+ *   4 bytes counter, big-endian
+ *   1 byte requester IP length, then the IP address string
+ *   Follow-up nuts only: 16 bytes response digest, then the raw bytes of the original QR-code nut
+ */
+export class EncryptedNutCodec {
+  /**
+   * Returns the digest packed into a follow-up nut: a truncated SHA-256 of the
+   * decoded response text with every occurrence of the nut removed.
+   */
+  public static responseDigest(serverResponseText: string, nut: string): Buffer {
+    let withoutNut = nut ? serverResponseText.split(nut).join('') : serverResponseText;
+    return crypto.createHash('sha256').update(withoutNut, 'utf8').digest().slice(0, EncryptedNutCodec.digestLength);
+  }
+
+  private static readonly algorithm = 'aes-256-gcm';
+  private static readonly ivLength = 12;
+  private static readonly authTagLength = 16;
+  private static readonly digestLength = 16;
+  private static readonly qrCodeNutFlag = 0x01;
+
+  private key: Buffer;
+  private counter: number;
+
+  constructor(key: Buffer) {
+    if (!key || key.length !== 32) {
+      throw new Error('Encrypted nut key must be 256 bits');
+    }
+    this.key = key;
+    this.counter = crypto.randomBytes(4).readUInt32BE(0);
+  }
+
+  /** Creates a nut for a QR-code SQRL URL. */
+  public createQrCodeNut(requesterIp?: string): Buffer {
+    return this.encrypt(this.createHeader(EncryptedNutCodec.qrCodeNutFlag, requesterIp));
+  }
+
+  /** Creates a follow-up nut for an API response. */
+  public createFollowUpNut(requesterIp: string | undefined, serverResponseDigest: Buffer, originalLoginNut: string): Buffer {
+    return this.encrypt(Buffer.concat([
+      this.createHeader(0, requesterIp),
+      serverResponseDigest,
+      base64url.toBuffer(originalLoginNut),
+    ]));
+  }
+
+  /** Decrypts a nut string, returning null if it is malformed or fails authentication. */
+  public decode(nut: string): EncryptedNutContents | null {
+    let nutBytes: Buffer = base64url.toBuffer(nut);
+    let headerLength = 1 + 4 + 4 + 1;
+    if (nutBytes.length < EncryptedNutCodec.ivLength + headerLength + EncryptedNutCodec.authTagLength) {
+      return null;
+    }
+
+    let plaintext: Buffer;
+    try {
+      let iv = nutBytes.slice(0, EncryptedNutCodec.ivLength);
+      let authTag = nutBytes.slice(nutBytes.length - EncryptedNutCodec.authTagLength);
+      let decipher = crypto.createDecipheriv(EncryptedNutCodec.algorithm, this.key, iv);
+      decipher.setAuthTag(authTag);
+      plaintext = Buffer.concat([
+        decipher.update(nutBytes.slice(EncryptedNutCodec.ivLength, nutBytes.length - EncryptedNutCodec.authTagLength)),
+        decipher.final(),
+      ]);
+    } catch (e) {
+      return null;  // Authentication failure.
+    }
+
+    let flags = plaintext[0];
+    let contents = new EncryptedNutContents();
+    // tslint:disable-next-line:no-bitwise
+    contents.isQrCodeNut = (flags & EncryptedNutCodec.qrCodeNutFlag) !== 0;
+    contents.issuedAt = new Date(plaintext.readUInt32BE(1) * 1000);
+    contents.counter = plaintext.readUInt32BE(5);
+    let ipLength = plaintext[9];
+    if (ipLength > 0) {
+      contents.requesterIp = plaintext.toString('utf8', headerLength, headerLength + ipLength);
+    }
+    let offset = headerLength + ipLength;
+    if (!contents.isQrCodeNut) {
+      if (plaintext.length <= offset + EncryptedNutCodec.digestLength) {
+        return null;
+      }
+      contents.serverResponseDigest = plaintext.slice(offset, offset + EncryptedNutCodec.digestLength);
+      contents.originalLoginNut = toSqrlBase64(plaintext.slice(offset + EncryptedNutCodec.digestLength));
+    }
+    return contents;
+  }
+
+  private createHeader(flags: number, requesterIp?: string): Buffer {
+    let ipBytes = Buffer.from(requesterIp || '', 'utf8');
+    if (ipBytes.length > 255) {
+      ipBytes = Buffer.alloc(0);
+    }
+    let header = Buffer.alloc(1 + 4 + 4 + 1);
+    header[0] = flags;
+    header.writeUInt32BE(Math.floor(Date.now() / 1000), 1);
+    header.writeUInt32BE(this.nextCounter(), 5);
+    header[9] = ipBytes.length;
+    return Buffer.concat([header, ipBytes]);
+  }
+
+  private nextCounter(): number {
+    this.counter = (this.counter + 1) % 0x100000000;
+    return this.counter;
+  }
+
+  private encrypt(plaintext: Buffer): Buffer {
+    let iv = crypto.randomBytes(EncryptedNutCodec.ivLength);
+    let cipher = crypto.createCipheriv(EncryptedNutCodec.algorithm, this.key, iv);
+    let ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+  }
+}
+
+/** Stores one-time cps login tokens. See SQRLStrategyConfig.cpsTokenStore. */
+export interface ICpsTokenStore {
+  /**
+   * Stores a new token with the user logged in by the SQRL client, until expiresAt.
+   * A shared store can hold the value passed to passport.serializeUser() in place of
+   * the user, and return the deserialized user from consumeAsync().
+   */
+  storeAsync(token: string, user: any, expiresAt: Date): Promise<void>;
+
+  /** Atomically removes a token and returns its user, or null if it is unknown or expired. */
+  consumeAsync(token: string): Promise<any | null>;
+}
+
+/** An ICpsTokenStore holding tokens in process memory. */
+export class MemoryCpsTokenStore implements ICpsTokenStore {
+  private tokens = new Map<string, { user: any, expiresAt: number }>();
+
+  public storeAsync(token: string, user: any, expiresAt: Date): Promise<void> {
+    this.sweep();
+    this.tokens.set(token, { user: user, expiresAt: expiresAt.getTime() });
+    return Promise.resolve();
+  }
+
+  public consumeAsync(token: string): Promise<any | null> {
+    let entry = this.tokens.get(token);
+    this.tokens.delete(token);
+    return Promise.resolve(entry && entry.expiresAt > Date.now() ? entry.user : null);
+  }
+
+  private sweep(): void {
+    let now = Date.now();
+    this.tokens.forEach((entry, token) => {
+      if (entry.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    });
+  }
+}
+
+const defaultCpsTokenStore: ICpsTokenStore = new MemoryCpsTokenStore();
+
+/** Records the encrypted nuts used by client requests. See SQRLStrategyConfig.usedNutStore. */
+export interface IUsedNutStore {
+  /**
+   * Atomically records the first use of a nut by a client request, keeping it until expiresAt,
+   * after which the nut is rejected as stale. Returns null for the first use, or the
+   * requestFingerprint recorded by the first use.
+   */
+  markUsedAsync(nut: string, requestFingerprint: string, expiresAt: Date): Promise<string | null>;
+}
+
+/** An IUsedNutStore holding used nuts in process memory. */
+export class MemoryUsedNutStore implements IUsedNutStore {
+  private nuts = new Map<string, { requestFingerprint: string, expiresAt: number }>();
+
+  public markUsedAsync(nut: string, requestFingerprint: string, expiresAt: Date): Promise<string | null> {
+    let entry = this.nuts.get(nut);
+    if (entry && entry.expiresAt > Date.now()) {
+      return Promise.resolve(entry.requestFingerprint);
+    }
+    this.sweep();
+    this.nuts.set(nut, { requestFingerprint: requestFingerprint, expiresAt: expiresAt.getTime() });
+    return Promise.resolve(null);
+  }
+
+  private sweep(): void {
+    let now = Date.now();
+    this.nuts.forEach((entry, nut) => {
+      if (entry.expiresAt <= now) {
+        this.nuts.delete(nut);
+      }
+    });
+  }
+}
+
+const defaultUsedNutStore: IUsedNutStore = new MemoryUsedNutStore();
+
+/**
+ * Default in-process IRateLimitStore. Counts for past windows are swept once the
+ * number of tracked keys exceeds maxKeys.
+ */
+export class MemoryRateLimitStore implements IRateLimitStore {
+  private counts = new Map<string, { window: number, count: number }>();
+  private maxKeys: number;
+
+  constructor(maxKeys: number = 10000) {
+    this.maxKeys = maxKeys;
+  }
+
+  public incrementAsync(key: string, windowSeconds: number): Promise<number> {
+    let window = Math.floor(Date.now() / (windowSeconds * 1000));
+    let entry = this.counts.get(key);
+    if (!entry || entry.window !== window) {
+      if (!entry && this.counts.size >= this.maxKeys) {
+        this.sweep(window);
+      }
+      entry = { window: window, count: 0 };
+      this.counts.set(key, entry);
+    }
+    entry.count++;
+    return Promise.resolve(entry.count);
+  }
+
+  private sweep(currentWindow: number): void {
+    this.counts.forEach((entry, key) => {
+      if (entry.window !== currentWindow) {
+        this.counts.delete(key);
+      }
+    });
+  }
+}
+
+/** A SQRL user held by MemorySQRLIdentityStorage, returned in AuthCompletionInfo.user. */
+export class SQRLUserRecord {
+  /** The number of replaced identity keys kept in previousIdentityPublicKeys, matching the four a SQRL client keeps. */
+  public static readonly maxPreviousIdentityKeys: number = 4;
+
+  /**
+   * Returns the previous identity keys after replacing replacedKey with newKey: replacedKey
+   * first, without duplicates or newKey, and at most maxPreviousIdentityKeys long.
+   */
+  public static previousKeysAfterRekey(previousKeys: string[], replacedKey: string, newKey: string): string[] {
+    let keys: string[] = [];
+    [ replacedKey ].concat(previousKeys).forEach(key => {
+      if (key !== newKey && keys.indexOf(key) < 0) {
+        keys.push(key);
+      }
+    });
+    return keys.slice(0, SQRLUserRecord.maxPreviousIdentityKeys);
+  }
+
+  /** The current identity public key (idk=), which identifies the user. */
+  public primaryIdentityPublicKey: string = '';
+
+  /** Up to four identity keys replaced through 'ident' with a pidk=, most recent first. */
+  public previousIdentityPublicKeys: string[] = [];
+
+  /** The suk= Server Unlock Key, returned to the client to sign 'enable' and 'remove'. */
+  public serverUnlockPublicKey?: string;
+
+  /** The vuk= Server Verify Unlock Key, for verifying the client's urs= signatures. */
+  public serverVerifyUnlockPublicKey?: string;
+
+  /** The user asked the site to allow only SQRL logins (the sqrlonly option). */
+  public useSqrlIdentityOnly: boolean = false;
+
+  /** The user asked the site not to allow identity recovery by other means (the hardlock option). */
+  public hardLockSqrlUse: boolean = false;
+
+  /** True after a 'disable' command, refusing logins until an 'enable'. */
+  public disabled: boolean = false;
+}
+
+/** Configuration for MemorySQRLIdentityStorage. */
+export class MemoryIdentityStorageConfig {
+  /**
+   * How long nuts and login states are kept after they are issued. Must exceed
+   * SQRLStrategyConfig.qrCodeNutMaxAgeSeconds. Defaults to two hours.
+   */
+  public nutTimeToLiveSeconds?: number;
+
+  /** The interval between sweeps removing expired nuts and login states. Defaults to 60 seconds. */
+  public sweepIntervalSeconds?: number;
+}
+
+/**
+ * An ISQRLIdentityStorage holding nuts, logins, and SQRL users in process memory. Suitable
+ * for development and single-server sites without persistent users, and a reference for the
+ * behavior expected of other implementations. Users are keyed by their current identity key,
+ * and logins by their original QR-code nut. Call dispose() to stop the expiry sweep timer.
+ */
+export class MemorySQRLIdentityStorage implements ISQRLIdentityStorage {
+  private nuts = new Map<string, { info: NutInfo, expiresAt: number }>();
+  private logins = new Map<string, { user?: any, completed: boolean, identityDisabled: boolean, expiresAt: number }>();
+  private users = new Map<string, SQRLUserRecord>();
+  private removedIdentityKeys = new Set<string>();
+  private nutTimeToLiveMsec: number;
+  private sweepTimer: NodeJS.Timer;
+
+  constructor(config?: MemoryIdentityStorageConfig) {
+    config = config || new MemoryIdentityStorageConfig();
+    this.nutTimeToLiveMsec = valueOrDefault(config.nutTimeToLiveSeconds, 7200) * 1000;
+    this.sweepTimer = setInterval(() => this.sweep(), valueOrDefault(config.sweepIntervalSeconds, 60) * 1000);
+    this.sweepTimer.unref();  // Do not keep the process running
+  }
+
+  /** Stops the expiry sweep timer. */
+  public dispose(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Returns the user with the given current identity key, or null.
+   * Useful in passport.deserializeUser() with the key from passport.serializeUser().
+   */
+  public getUserAsync(identityPublicKey: string): Promise<SQRLUserRecord | null> {
+    return Promise.resolve(this.users.get(identityPublicKey) || null);
+  }
+
+  public nutIssuedToClientAsync(urlAndNut: UrlAndNut, originalLoginNut?: string): Promise<void> {
+    let info = <NutInfo> {
+      issuedAt: urlAndNut.issuedAt,
+      nut: urlAndNut.nutString,
+      originalLoginNut: originalLoginNut || undefined,
+      requesterIp: urlAndNut.requesterIp,
+      serverResponseBody: urlAndNut.serverResponseBody,
+      url: urlAndNut.url,
+    };
+    this.nuts.set(urlAndNut.nutString, { info: info, expiresAt: Date.now() + this.nutTimeToLiveMsec });
+    return Promise.resolve();
+  }
+
+  public consumeNutAsync(nut: string, requestFingerprint: string): Promise<NutInfo | null> {
+    let info: NutInfo | null = this.getNutInfo(nut);
+    if (!info) {
+      return Promise.resolve(null);
+    }
+    let result = <NutInfo> { ...info };
+    if (!info.consumedByRequest) {
+      info.consumedByRequest = requestFingerprint;
+    }
+    return Promise.resolve(result);
+  }
+
+  public loginCompletedAsync(originalLoginNut: string, user: any): Promise<void> {
+    let login = this.getOrAddLogin(originalLoginNut);
+    login.user = user;
+    login.completed = true;
+    return Promise.resolve();
+  }
+
+  public consumeCompletedLoginAsync(nut: string): Promise<any | null> {
+    let login = this.getLogin(this.resolveOriginalLoginNut(nut));
+    if (!login || !login.completed) {
+      return Promise.resolve(null);
+    }
+    login.completed = false;
+    return Promise.resolve(login.user);
+  }
+
+  public identityDisabledAtLoginAsync(originalLoginNut: string): Promise<void> {
+    this.getOrAddLogin(originalLoginNut).identityDisabled = true;
+    return Promise.resolve();
+  }
+
+  public getLoginStatusAsync(nut: string): Promise<LoginStatusInfo | null> {
+    let originalLoginNut: string = this.resolveOriginalLoginNut(nut);
+    let nutInfo: NutInfo | null = this.getNutInfo(originalLoginNut);
+    let login = this.getLogin(originalLoginNut);
+    if (!nutInfo && !login) {
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(<LoginStatusInfo> {
+      identityDisabled: login ? login.identityDisabled : false,
+      issuedAt: nutInfo ? nutInfo.issuedAt : undefined,
+      loginCompleted: login ? login.completed : false,
+    });
+  }
+
+  public getServerVerifyUnlockKeyAsync(identityPublicKey: string): Promise<string | null> {
+    let user: SQRLUserRecord | undefined = this.users.get(identityPublicKey);
+    return Promise.resolve(user ? user.serverVerifyUnlockPublicKey || null : null);
+  }
+
+  public queryAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let match = this.findUser(clientRequestInfo);
+    let result = <AuthCompletionInfo> { tifValues: match.tifValues };
+    if (match.user) {
+      if (match.user.disabled) {
+        // tslint:disable-next-line:no-bitwise
+        result.tifValues |= TIFFlags.IDDisabled;
+      }
+      // A disabled or previous identity needs the suk to sign its 'enable' or rekeying 'ident'.
+      // tslint:disable-next-line:no-bitwise
+      if (clientRequestInfo.returnSessionUnlockKey || match.user.disabled || (match.tifValues & TIFFlags.PreviousIDMatch)) {
+        result.sessionUnlockKey = match.user.serverUnlockPublicKey;
+      }
+    }
+    return Promise.resolve(result);
+  }
+
+  public identAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let match = this.findUser(clientRequestInfo);
+    let user: SQRLUserRecord | undefined = match.user;
+    if (user && user.disabled) {
+      // tslint:disable-next-line:no-bitwise
+      return Promise.resolve(<AuthCompletionInfo> { tifValues: match.tifValues | TIFFlags.IDDisabled | TIFFlags.CommandFailed });
+    }
+
+    let primaryKey = <string> clientRequestInfo.primaryIdentityPublicKey;
+    if (!user) {
+      if (this.removedIdentityKeys.has(primaryKey)) {
+        return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed });
+      }
+      user = new SQRLUserRecord();
+      user.primaryIdentityPublicKey = primaryKey;
+      user.serverUnlockPublicKey = clientRequestInfo.serverUnlockPublicKey;
+      user.serverVerifyUnlockPublicKey = clientRequestInfo.serverVerifyUnlockPublicKey;
+      this.users.set(primaryKey, user);
+    } else if (user.primaryIdentityPublicKey !== primaryKey) {
+      // Rekey to the new identity key. The client sends new unlock keys with it.
+      this.users.delete(user.primaryIdentityPublicKey);
+      user.previousIdentityPublicKeys = SQRLUserRecord.previousKeysAfterRekey(
+          user.previousIdentityPublicKeys, user.primaryIdentityPublicKey, primaryKey);
+      user.primaryIdentityPublicKey = primaryKey;
+      user.serverUnlockPublicKey = clientRequestInfo.serverUnlockPublicKey || user.serverUnlockPublicKey;
+      user.serverVerifyUnlockPublicKey = clientRequestInfo.serverVerifyUnlockPublicKey || user.serverVerifyUnlockPublicKey;
+      this.users.set(primaryKey, user);
+    }
+    user.useSqrlIdentityOnly = clientRequestInfo.useSqrlIdentityOnly;
+    user.hardLockSqrlUse = clientRequestInfo.hardLockSqrlUse;
+    return Promise.resolve(<AuthCompletionInfo> { tifValues: match.tifValues, user: user });
+  }
+
+  public disableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let match = this.findUser(clientRequestInfo);
+    if (!match.user) {
+      return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed });
+    }
+    match.user.disabled = true;
+    // tslint:disable-next-line:no-bitwise
+    return Promise.resolve(<AuthCompletionInfo> { tifValues: match.tifValues | TIFFlags.IDDisabled });
+  }
+
+  public enableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let match = this.findUser(clientRequestInfo);
+    if (!match.user) {
+      return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed });
+    }
+    match.user.disabled = false;
+    return Promise.resolve(<AuthCompletionInfo> { tifValues: match.tifValues });
+  }
+
+  public removeAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let match = this.findUser(clientRequestInfo);
+    if (!match.user) {
+      return Promise.resolve(<AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed });
+    }
+    let user: SQRLUserRecord = match.user;
+    this.users.delete(user.primaryIdentityPublicKey);
+    [ user.primaryIdentityPublicKey ].concat(user.previousIdentityPublicKeys)
+      .forEach(key => this.removedIdentityKeys.add(key));
+    return Promise.resolve(<AuthCompletionInfo> { tifValues: 0 });
+  }
+
+  /** Finds the user by the request's current identity key, then by its previous identity key. */
+  private findUser(clientRequestInfo: ClientRequestInfo): { user?: SQRLUserRecord, tifValues: TIFFlags } {
+    let user: SQRLUserRecord | undefined = this.users.get(<string> clientRequestInfo.primaryIdentityPublicKey);
+    if (user) {
+      return { user: user, tifValues: TIFFlags.CurrentIDMatch };
+    }
+    if (clientRequestInfo.previousIdentityPublicKey) {
+      user = this.users.get(clientRequestInfo.previousIdentityPublicKey);
+      if (user) {
+        return { user: user, tifValues: TIFFlags.PreviousIDMatch };
+      }
+    }
+    return { tifValues: 0 };
+  }
+
+  private getNutInfo(nut: string): NutInfo | null {
+    let entry = this.nuts.get(nut);
+    return entry && entry.expiresAt > Date.now() ? entry.info : null;
+  }
+
+  private resolveOriginalLoginNut(nut: string): string {
+    let info: NutInfo | null = this.getNutInfo(nut);
+    return info && info.originalLoginNut ? info.originalLoginNut : nut;
+  }
+
+  private getLogin(originalLoginNut: string) {
+    let login = this.logins.get(originalLoginNut);
+    return login && login.expiresAt > Date.now() ? login : undefined;
+  }
+
+  private getOrAddLogin(originalLoginNut: string) {
+    let login = this.getLogin(originalLoginNut);
+    if (!login) {
+      login = { completed: false, expiresAt: Date.now() + this.nutTimeToLiveMsec, identityDisabled: false };
+      this.logins.set(originalLoginNut, login);
+    }
+    return login;
+  }
+
+  private sweep(): void {
+    let now = Date.now();
+    this.nuts.forEach((entry, nut) => {
+      if (entry.expiresAt <= now) {
+        this.nuts.delete(nut);
+      }
+    });
+    this.logins.forEach((login, nut) => {
+      if (login.expiresAt <= now) {
+        this.logins.delete(nut);
+      }
+    });
+  }
+}
+
+/**
+ * The Redis commands used by RedisSQRLIdentityStorage, matching the promise API of the
+ * ioredis package. Wrap other Redis clients to this shape.
+ */
+export interface IRedisClient {
+  get(key: string): Promise<string | null>;
+
+  /** SET with optional 'PX', milliseconds and 'NX' arguments. Returns 'OK', or null if NX prevented the set. */
+  set(key: string, value: string, ...args: Array<string | number>): Promise<string | null>;
+
+  del(...keys: string[]): Promise<number>;
+
+  /** WATCHes keys for changes until the next exec() on this connection, which then fails. */
+  watch(...keys: string[]): Promise<string>;
+
+  /** Clears the keys watched on this connection. */
+  unwatch(): Promise<string>;
+
+  /** Starts a MULTI transaction, applied atomically by exec(). */
+  multi(): IRedisTransaction;
+}
+
+/** A Redis MULTI transaction from IRedisClient.multi(). */
+export interface IRedisTransaction {
+  set(key: string, value: string, ...args: Array<string | number>): IRedisTransaction;
+  del(...keys: string[]): IRedisTransaction;
+
+  /** Applies the transaction, resolving to null without applying it if a watched key changed. */
+  exec(): Promise<any>;
+}
+
+/** Configuration for RedisSQRLIdentityStorage. */
+export class RedisIdentityStorageConfig {
   /**
-   * The requested SQRL operation. One of the various SQRL client commands
-   * (https://www.grc.com/sqrl/semantics.htm):
-   *   'query' - initial identity validation to a site, or a later round of attempt to find a previous
-   *             identity key that the server recognizes;
-   *   'ident' - requests the server to accept the user's identity.
-   *   'disable' - requests the server to disable the user's identity, typically for reasons
-   *               of potential hacking;
-   *   'enable' - reverse of 'disable'
-   *   'remove' - requests the server to remove the user's identity (which must have previously been
-   *              disabled) from the server's identity store.
+   * The Redis expiry of nuts and login states. Must exceed
+   * SQRLStrategyConfig.qrCodeNutMaxAgeSeconds. Defaults to two hours.
    */
-  public sqrlCommand?: string;
+  public nutTimeToLiveSeconds?: number;
+
+  /** Prepended to all Redis keys, to share a Redis database. Defaults to 'sqrl:'. */
+  public keyPrefix?: string;
+}
+
+/**
+ * An ISQRLIdentityStorage keeping nuts, logins, and SQRL users in Redis, for server clusters
+ * where each SQRL API call and login page poll can reach a different server. Nuts and login
+ * states use Redis key expiry, and nuts are consumed atomically with SET NX. Users are stored
+ * as SQRLUserRecord JSON keyed by their current identity key, with an index from each previous
+ * identity key. An ident WATCHes the user keys it reads and applies its changes in a MULTI
+ * transaction, retrying when another server changed the user first. Transactions from one
+ * instance are serialized, as WATCH applies to the whole connection; give the storage a
+ * connection not used for WATCH elsewhere. Behaves as MemorySQRLIdentityStorage.
+ *
+ * Keys, after the configured prefix:
+ *   nut:{nut}, nut:{nut}:consumed - NutInfo JSON and the request fingerprint that used the nut.
+ *   login:{nut}, login:{nut}:consumed, login:{nut}:disabled - Login state for an original QR-code nut.
+ *   user:{idk} - SQRLUserRecord JSON.
+ *   previous:{idk} - The current identity key of the user that replaced identity key idk.
+ *   removed:{idk} - Present for the identity keys of removed users.
+ */
+export class RedisSQRLIdentityStorage implements ISQRLIdentityStorage {
+  /** How many times a user change is tried when its watched keys keep changing. */
+  public static readonly maxTransactionAttempts: number = 5;
+
+  private redis: IRedisClient;
+  private keyPrefix: string;
+  private nutTimeToLiveMsec: number;
+  private queue: Promise<any> = Promise.resolve();
+
+  constructor(redis: IRedisClient, config?: RedisIdentityStorageConfig) {
+    config = config || new RedisIdentityStorageConfig();
+    this.redis = redis;
+    this.keyPrefix = config.keyPrefix !== undefined ? config.keyPrefix : 'sqrl:';
+    this.nutTimeToLiveMsec = valueOrDefault(config.nutTimeToLiveSeconds, 7200) * 1000;
+  }
 
   /**
-   * The nut value presented to the server. This could come from an original
-   * QR code URL on a first SQRL 'query' command, or a follow-up URL handed
-   * back to the client on a query or other response.
-   * 
-   * Typically this value is used (a) as a layer of security to verify that
-   * the client is not just making up random plausible nut values but in fact
-   * is returning a nut generated by this server (or server cluster), and (b)
-   * to provide a chain of nut values leading from a QR code to an eventual
-   * login, for supporting auto-login flows. See doc comments on
-   * ISQRLIdentityStorage nutIssuedToClientAsync() and getNutInfoAsync().
+   * Returns the user with the given current or previous identity key, or null.
+   * Useful in passport.deserializeUser() with the key from passport.serializeUser(),
+   * which then survives a rekey of the user's identity.
    */
-  public nut?: string;
+  public async getUserAsync(identityPublicKey: string): Promise<SQRLUserRecord | null> {
+    let user: SQRLUserRecord | null = await this.getUserRecordAsync(identityPublicKey);
+    if (!user) {
+      let currentKey: string | null = await this.redis.get(this.keyPrefix + 'previous:' + identityPublicKey);
+      user = currentKey ? await this.getUserRecordAsync(currentKey) : null;
+    }
+    return user;
+  }
+
+  public async nutIssuedToClientAsync(urlAndNut: UrlAndNut, originalLoginNut?: string): Promise<void> {
+    let info = <NutInfo> {
+      issuedAt: urlAndNut.issuedAt,
+      nut: urlAndNut.nutString,
+      originalLoginNut: originalLoginNut || undefined,
+      requesterIp: urlAndNut.requesterIp,
+      serverResponseBody: urlAndNut.serverResponseBody,
+      url: urlAndNut.url,
+    };
+    await this.redis.set(this.nutKey(urlAndNut.nutString), JSON.stringify(info), 'PX', this.nutTimeToLiveMsec);
+  }
+
+  public async consumeNutAsync(nut: string, requestFingerprint: string): Promise<NutInfo | null> {
+    let info: NutInfo | null = await this.getNutInfoAsync(nut);
+    if (!info) {
+      return null;
+    }
+    let consumedKey: string = this.nutKey(nut) + ':consumed';
+    if (!await this.redis.set(consumedKey, requestFingerprint, 'PX', this.nutTimeToLiveMsec, 'NX')) {
+      info.consumedByRequest = (await this.redis.get(consumedKey)) || undefined;
+    }
+    return info;
+  }
+
+  public loginCompletedAsync(originalLoginNut: string, user: any): Promise<void> {
+    let loginKey: string = this.loginKey(originalLoginNut);
+    return this.enqueue(() => this.redis.multi()
+      .set(loginKey, JSON.stringify({ user: user }), 'PX', this.nutTimeToLiveMsec)
+      .del(loginKey + ':consumed')
+      .exec());
+  }
+
+  public async consumeCompletedLoginAsync(nut: string): Promise<any | null> {
+    let loginKey: string = this.loginKey(await this.resolveOriginalLoginNutAsync(nut));
+    let login: string | null = await this.redis.get(loginKey);
+    if (!login || !await this.redis.set(loginKey + ':consumed', '1', 'PX', this.nutTimeToLiveMsec, 'NX')) {
+      return null;
+    }
+    return JSON.parse(login).user;
+  }
+
+  public async identityDisabledAtLoginAsync(originalLoginNut: string): Promise<void> {
+    await this.redis.set(this.loginKey(originalLoginNut) + ':disabled', '1', 'PX', this.nutTimeToLiveMsec);
+  }
+
+  public async getLoginStatusAsync(nut: string): Promise<LoginStatusInfo | null> {
+    let originalLoginNut: string = await this.resolveOriginalLoginNutAsync(nut);
+    let loginKey: string = this.loginKey(originalLoginNut);
+    let [ nutInfo, login, consumed, disabled ] = await Promise.all([
+      this.getNutInfoAsync(originalLoginNut),
+      this.redis.get(loginKey),
+      this.redis.get(loginKey + ':consumed'),
+      this.redis.get(loginKey + ':disabled'),
+    ]);
+    if (!nutInfo && !login && !disabled) {
+      return null;
+    }
+    return <LoginStatusInfo> {
+      identityDisabled: !!disabled,
+      issuedAt: nutInfo ? nutInfo.issuedAt : undefined,
+      loginCompleted: !!login && !consumed,
+    };
+  }
+
+  public async getServerVerifyUnlockKeyAsync(identityPublicKey: string): Promise<string | null> {
+    let user: SQRLUserRecord | null = await this.getUserRecordAsync(identityPublicKey);
+    return user ? user.serverVerifyUnlockPublicKey || null : null;
+  }
+
+  public async queryAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    let match = await this.findUserAsync(clientRequestInfo);
+    let result = <AuthCompletionInfo> { tifValues: match.tifValues };
+    if (match.user) {
+      if (match.user.disabled) {
+        // tslint:disable-next-line:no-bitwise
+        result.tifValues |= TIFFlags.IDDisabled;
+      }
+      // A disabled or previous identity needs the suk to sign its 'enable' or rekeying 'ident'.
+      // tslint:disable-next-line:no-bitwise
+      if (clientRequestInfo.returnSessionUnlockKey || match.user.disabled || (match.tifValues & TIFFlags.PreviousIDMatch)) {
+        result.sessionUnlockKey = match.user.serverUnlockPublicKey;
+      }
+    }
+    return result;
+  }
+
+  public identAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.retryTransactionAsync('ident', () => this.tryIdentAsync(clientRequestInfo));
+  }
+
+  public disableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.retryTransactionAsync('disable', () => this.trySetDisabledAsync(clientRequestInfo, true));
+  }
+
+  public enableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.retryTransactionAsync('enable', () => this.trySetDisabledAsync(clientRequestInfo, false));
+  }
+
+  public removeAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.retryTransactionAsync('remove', () => this.tryRemoveAsync(clientRequestInfo));
+  }
+
+  /** Runs one ident under WATCH, returning null if a watched key changed before it was applied. */
+  private async tryIdentAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo | null> {
+    let primaryKey = <string> clientRequestInfo.primaryIdentityPublicKey;
+    await this.watchUserAsync(clientRequestInfo, this.keyPrefix + 'removed:' + primaryKey);
+
+    let match = await this.findUserAsync(clientRequestInfo);
+    let user: SQRLUserRecord | undefined = match.user;
+    if (user && user.disabled) {
+      await this.redis.unwatch();
+      // tslint:disable-next-line:no-bitwise
+      return <AuthCompletionInfo> { tifValues: match.tifValues | TIFFlags.IDDisabled | TIFFlags.CommandFailed };
+    }
+
+    let transaction: IRedisTransaction = this.redis.multi();
+    if (!user) {
+      if (await this.redis.get(this.keyPrefix + 'removed:' + primaryKey)) {
+        await this.redis.unwatch();
+        return <AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed };
+      }
+      user = new SQRLUserRecord();
+      user.primaryIdentityPublicKey = primaryKey;
+      user.serverUnlockPublicKey = clientRequestInfo.serverUnlockPublicKey;
+      user.serverVerifyUnlockPublicKey = clientRequestInfo.serverVerifyUnlockPublicKey;
+    } else if (user.primaryIdentityPublicKey !== primaryKey) {
+      // Rekey to the new identity key, pointing the previous key index at it.
+      // The client sends new unlock keys with it.
+      let oldKey: string = user.primaryIdentityPublicKey;
+      let droppedKeys: string[] = user.previousIdentityPublicKeys;
+      user.previousIdentityPublicKeys = SQRLUserRecord.previousKeysAfterRekey(user.previousIdentityPublicKeys, oldKey, primaryKey);
+      user.primaryIdentityPublicKey = primaryKey;
+      user.serverUnlockPublicKey = clientRequestInfo.serverUnlockPublicKey || user.serverUnlockPublicKey;
+      user.serverVerifyUnlockPublicKey = clientRequestInfo.serverVerifyUnlockPublicKey || user.serverVerifyUnlockPublicKey;
+      transaction.del(this.userKey(oldKey));
+      user.previousIdentityPublicKeys.forEach(key => transaction.set(this.keyPrefix + 'previous:' + key, primaryKey));
+      droppedKeys.filter(key => user!.previousIdentityPublicKeys.indexOf(key) < 0)
+        .forEach(key => transaction.del(this.keyPrefix + 'previous:' + key));
+    }
+    user.useSqrlIdentityOnly = clientRequestInfo.useSqrlIdentityOnly;
+    user.hardLockSqrlUse = clientRequestInfo.hardLockSqrlUse;
+    if (!await transaction.set(this.userKey(primaryKey), JSON.stringify(user)).exec()) {
+      return null;
+    }
+    return <AuthCompletionInfo> { tifValues: match.tifValues, user: user };
+  }
+
+  /** Runs one disable or enable under WATCH, returning null if a watched key changed before it was applied. */
+  private async trySetDisabledAsync(clientRequestInfo: ClientRequestInfo, disabled: boolean): Promise<AuthCompletionInfo | null> {
+    await this.watchUserAsync(clientRequestInfo);
+    let match = await this.findUserAsync(clientRequestInfo);
+    if (!match.user) {
+      await this.redis.unwatch();
+      return <AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed };
+    }
+    match.user.disabled = disabled;
+    if (!await this.redis.multi().set(this.userKey(match.user.primaryIdentityPublicKey), JSON.stringify(match.user)).exec()) {
+      return null;
+    }
+    // tslint:disable-next-line:no-bitwise
+    return <AuthCompletionInfo> { tifValues: disabled ? match.tifValues | TIFFlags.IDDisabled : match.tifValues };
+  }
+
+  /** Runs one remove under WATCH, returning null if a watched key changed before it was applied. */
+  private async tryRemoveAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo | null> {
+    await this.watchUserAsync(clientRequestInfo);
+    let match = await this.findUserAsync(clientRequestInfo);
+    let user: SQRLUserRecord | undefined = match.user;
+    if (!user) {
+      await this.redis.unwatch();
+      return <AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed };
+    }
+    let transaction: IRedisTransaction = this.redis.multi().del(this.userKey(user.primaryIdentityPublicKey));
+    user.previousIdentityPublicKeys.forEach(key => transaction.del(this.keyPrefix + 'previous:' + key));
+    [ user.primaryIdentityPublicKey ].concat(user.previousIdentityPublicKeys)
+      .forEach(key => transaction.set(this.keyPrefix + 'removed:' + key, '1'));
+    if (!await transaction.exec()) {
+      return null;
+    }
+    return <AuthCompletionInfo> { tifValues: 0 };
+  }
 
   /**
-   * The primary identity public key that the client wishes to use to contact this
-   * server in the future. It may not correspond to a public key previously received
-   * at this server if previously presented - but now deprecated - public keys are
-   * presented one per 'query' command in previousIdentityPublicKey.
-   * 
-   * This value is a SQRL-base64 (base64 minus any tail '=' padding characters) string.
-   * Use the primaryIdentityPublicKeyBuf() function to retrieve a Buffer version of this string.
-   * 
-   * This public key has been successfully validated against the corresponding client-provided
-   * signature in the request.
+   * Runs a try*Async() transaction after the earlier ones, retrying it while it returns null
+   * because another server changed the user.
    */
-  public primaryIdentityPublicKey?: string;
+  private retryTransactionAsync(command: string, tryAsync: () => Promise<AuthCompletionInfo | null>): Promise<AuthCompletionInfo> {
+    return this.enqueue(async () => {
+      for (let attempt = 1; attempt <= RedisSQRLIdentityStorage.maxTransactionAttempts; attempt++) {
+        let result: AuthCompletionInfo | null = await tryAsync();
+        if (result) {
+          return result;
+        }
+      }
+      throw new Error(`SQRL user changed concurrently in all ${RedisSQRLIdentityStorage.maxTransactionAttempts} ${command} attempts`);
+    });
+  }
+
+  /** WATCHes the user keys findUserAsync() reads for the request, and any other given keys. */
+  private watchUserAsync(clientRequestInfo: ClientRequestInfo, ...otherKeys: string[]): Promise<string> {
+    let watchedKeys: string[] = [ this.userKey(<string> clientRequestInfo.primaryIdentityPublicKey) ].concat(otherKeys);
+    if (clientRequestInfo.previousIdentityPublicKey) {
+      watchedKeys.push(this.userKey(clientRequestInfo.previousIdentityPublicKey));
+    }
+    return this.redis.watch(...watchedKeys);
+  }
+
+  /** Finds the user by the request's current identity key, then by its previous identity key. */
+  private async findUserAsync(clientRequestInfo: ClientRequestInfo): Promise<{ user?: SQRLUserRecord, tifValues: TIFFlags }> {
+    let user: SQRLUserRecord | null = await this.getUserRecordAsync(<string> clientRequestInfo.primaryIdentityPublicKey);
+    if (user) {
+      return { user: user, tifValues: TIFFlags.CurrentIDMatch };
+    }
+    if (clientRequestInfo.previousIdentityPublicKey) {
+      user = await this.getUserRecordAsync(clientRequestInfo.previousIdentityPublicKey);
+      if (user) {
+        return { user: user, tifValues: TIFFlags.PreviousIDMatch };
+      }
+    }
+    return { tifValues: 0 };
+  }
+
+  private async getUserRecordAsync(identityPublicKey: string): Promise<SQRLUserRecord | null> {
+    let json: string | null = await this.redis.get(this.userKey(identityPublicKey));
+    return json ? <SQRLUserRecord> Object.assign(new SQRLUserRecord(), JSON.parse(json)) : null;
+  }
+
+  private async getNutInfoAsync(nut: string): Promise<NutInfo | null> {
+    let json: string | null = await this.redis.get(this.nutKey(nut));
+    if (!json) {
+      return null;
+    }
+    let info = <NutInfo> JSON.parse(json);
+    if (info.issuedAt) {
+      info.issuedAt = new Date(info.issuedAt);
+    }
+    return info;
+  }
+
+  private async resolveOriginalLoginNutAsync(nut: string): Promise<string> {
+    let info: NutInfo | null = await this.getNutInfoAsync(nut);
+    return info && info.originalLoginNut ? info.originalLoginNut : nut;
+  }
+
+  private nutKey(nut: string): string {
+    return this.keyPrefix + 'nut:' + nut;
+  }
+
+  private loginKey(originalLoginNut: string): string {
+    return this.keyPrefix + 'login:' + originalLoginNut;
+  }
+
+  private userKey(identityPublicKey: string): string {
+    return this.keyPrefix + 'user:' + identityPublicKey;
+  }
+
+  /** Runs a MULTI transaction after the earlier ones, so no exec() clears another transaction's WATCH. */
+  private enqueue<T>(action: () => Promise<T>): Promise<T> {
+    let result: Promise<T> = this.queue.then(action);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * The SQL calls used by SqliteSQRLIdentityStorage over a single SQLite connection. Wrap a
+ * SQLite driver such as better-sqlite3 or sqlite3 to this shape. Parameters are bound
+ * positionally to '?' placeholders, and are strings, numbers, or null.
+ */
+export interface ISqlDatabase {
+  /** Runs one statement, returning the number of rows it changed. */
+  runAsync(sql: string, params?: any[]): Promise<number>;
+
+  /** Runs one query, returning its first row as an object keyed by column name, or undefined. */
+  getAsync(sql: string, params?: any[]): Promise<any | undefined>;
+
+  /** Runs one query, returning all rows as objects keyed by column name. */
+  allAsync(sql: string, params?: any[]): Promise<any[]>;
+}
+
+/**
+ * SqliteSQRLIdentityStorage schema migrations. Entry N holds the statements moving the schema
+ * from version N to N + 1, recorded in the database's user_version. Append new migrations;
+ * never change shipped ones.
+ */
+const sqliteMigrations: string[][] = [
+  [
+    `CREATE TABLE users (
+      id INTEGER PRIMARY KEY,
+      primary_identity_key TEXT NOT NULL UNIQUE,
+      server_unlock_key TEXT,
+      server_verify_unlock_key TEXT,
+      use_sqrl_identity_only INTEGER NOT NULL DEFAULT 0,
+      hard_lock_sqrl_use INTEGER NOT NULL DEFAULT 0,
+      disabled INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    )`,
+    `CREATE TABLE previous_identity_keys (
+      identity_key TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      replaced_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX previous_identity_keys_user_id ON previous_identity_keys(user_id)`,
+    `CREATE TABLE removed_identity_keys (
+      identity_key TEXT PRIMARY KEY,
+      removed_at INTEGER NOT NULL
+    )`,
+    `CREATE TABLE nuts (
+      nut TEXT PRIMARY KEY,
+      original_login_nut TEXT,
+      url TEXT,
+      server_response_body TEXT,
+      requester_ip TEXT,
+      issued_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      consumed_by_request TEXT
+    )`,
+    `CREATE INDEX nuts_expires_at ON nuts(expires_at)`,
+    `CREATE TABLE logins (
+      original_login_nut TEXT PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id),
+      completed INTEGER NOT NULL DEFAULT 0,
+      identity_disabled INTEGER NOT NULL DEFAULT 0,
+      expires_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX logins_expires_at ON logins(expires_at)`,
+  ],
+  [
+    // The completed login's user as passed to loginCompletedAsync(), which may come from another ISqrlIdentityStore.
+    `ALTER TABLE logins ADD COLUMN user_record TEXT`,
+  ],
+];
+
+/** A row of the SqliteSQRLIdentityStorage users table. */
+interface ISqliteUserRow {
+  id: number;
+  primary_identity_key: string;
+  server_unlock_key: string | null;
+  server_verify_unlock_key: string | null;
+  use_sqrl_identity_only: number;
+  hard_lock_sqrl_use: number;
+  disabled: number;
+}
+
+/** A row of the SqliteSQRLIdentityStorage nuts table. */
+interface ISqliteNutRow {
+  nut: string;
+  original_login_nut: string | null;
+  url: string | null;
+  server_response_body: string | null;
+  requester_ip: string | null;
+  issued_at: number;
+  consumed_by_request: string | null;
+}
+
+/** A row of the SqliteSQRLIdentityStorage logins table. */
+interface ISqliteLoginRow {
+  user_record: string | null;
+  completed: number;
+  identity_disabled: number;
+}
+
+/** Configuration for SqliteSQRLIdentityStorage. */
+export class SqliteIdentityStorageConfig {
+  /**
+   * How long nuts and login states are kept after they are issued. Must exceed
+   * SQRLStrategyConfig.qrCodeNutMaxAgeSeconds. Defaults to two hours.
+   */
+  public nutTimeToLiveSeconds?: number;
+}
+
+/**
+ * An ISQRLIdentityStorage keeping nuts, logins, and SQRL users in a SQLite database, for
+ * smaller sites wanting a single durable store. Behaves as MemorySQRLIdentityStorage, with
+ * users, their last four previous identity keys, removed identity keys, nuts, and logins in
+ * separate tables. Completed logins keep the serialized user record, so the store can also
+ * serve as the INutStore beside a different ISqrlIdentityStore in SQRLStores. Each method
+ * runs in its own transaction, serialized over the connection. The schema is created or
+ * upgraded on first use; call migrateAsync() to do so at startup. Expired nuts and logins
+ * are deleted as new nuts are issued.
+ */
+export class SqliteSQRLIdentityStorage implements ISQRLIdentityStorage {
+  private db: ISqlDatabase;
+  private nutTimeToLiveMsec: number;
+  private queue: Promise<any> = Promise.resolve();
+  private migration?: Promise<void>;
+
+  constructor(db: ISqlDatabase, config?: SqliteIdentityStorageConfig) {
+    config = config || new SqliteIdentityStorageConfig();
+    this.db = db;
+    this.nutTimeToLiveMsec = valueOrDefault(config.nutTimeToLiveSeconds, 7200) * 1000;
+  }
+
+  /** The schema version this code creates and expects. */
+  public static get schemaVersion(): number {
+    return sqliteMigrations.length;
+  }
+
+  /** Applies any schema migrations not yet recorded in the database. Runs once per instance. */
+  public migrateAsync(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.enqueue(() => this.applyMigrationsAsync());
+    }
+    return this.migration;
+  }
+
+  /**
+   * Returns the user with the given current or previous identity key, or null.
+   * Useful in passport.deserializeUser() with the key from passport.serializeUser(),
+   * which then survives a rekey of the user's identity.
+   */
+  public getUserAsync(identityPublicKey: string): Promise<SQRLUserRecord | null> {
+    return this.transactionAsync(async () => {
+      let row: { user_id: number } | undefined = await this.db.getAsync(
+        'SELECT user_id FROM previous_identity_keys WHERE identity_key = ?', [ identityPublicKey ]);
+      return row ? this.getUserByIdAsync(row.user_id) : this.getUserByKeyAsync(identityPublicKey);
+    });
+  }
+
+  public nutIssuedToClientAsync(urlAndNut: UrlAndNut, originalLoginNut?: string): Promise<void> {
+    return this.transactionAsync(async () => {
+      let now = Date.now();
+      await this.db.runAsync('DELETE FROM nuts WHERE expires_at <= ?', [ now ]);
+      await this.db.runAsync('DELETE FROM logins WHERE expires_at <= ?', [ now ]);
+      await this.db.runAsync(
+        'INSERT OR REPLACE INTO nuts (nut, original_login_nut, url, server_response_body, requester_ip, issued_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [ urlAndNut.nutString, originalLoginNut || null, urlAndNut.url, urlAndNut.serverResponseBody || null,
+          urlAndNut.requesterIp || null, urlAndNut.issuedAt.getTime(), now + this.nutTimeToLiveMsec ]);
+    });
+  }
+
+  public consumeNutAsync(nut: string, requestFingerprint: string): Promise<NutInfo | null> {
+    return this.transactionAsync(async () => {
+      let info: NutInfo | null = await this.getNutInfoAsync(nut);
+      if (info && !info.consumedByRequest) {
+        await this.db.runAsync('UPDATE nuts SET consumed_by_request = ? WHERE nut = ?', [ requestFingerprint, nut ]);
+      }
+      return info;
+    });
+  }
+
+  public loginCompletedAsync(originalLoginNut: string, user: any): Promise<void> {
+    return this.transactionAsync(async () => {
+      // user_id is only set for users of this store, so that removing the identity also forgets the login.
+      let row: Pick<ISqliteUserRow, 'id'> | undefined = user && user.primaryIdentityPublicKey ? await this.db.getAsync(
+        'SELECT id FROM users WHERE primary_identity_key = ?', [ user.primaryIdentityPublicKey ]) : undefined;
+      await this.upsertLoginAsync(originalLoginNut);
+      await this.db.runAsync(
+        'UPDATE logins SET user_id = ?, user_record = ?, completed = 1 WHERE original_login_nut = ?',
+        [ row ? row.id : null, JSON.stringify(user), originalLoginNut ]);
+    });
+  }
+
+  public consumeCompletedLoginAsync(nut: string): Promise<any | null> {
+    return this.transactionAsync(async () => {
+      let originalLoginNut: string = await this.resolveOriginalLoginNutAsync(nut);
+      let row: Pick<ISqliteLoginRow, 'user_record'> | undefined = await this.db.getAsync(
+        'SELECT user_record FROM logins WHERE original_login_nut = ? AND completed = 1 AND expires_at > ?', [ originalLoginNut, Date.now() ]);
+      if (!row) {
+        return null;
+      }
+      await this.db.runAsync('UPDATE logins SET completed = 0 WHERE original_login_nut = ?', [ originalLoginNut ]);
+      return JSON.parse(<string> row.user_record);
+    });
+  }
+
+  public identityDisabledAtLoginAsync(originalLoginNut: string): Promise<void> {
+    return this.transactionAsync(async () => {
+      await this.upsertLoginAsync(originalLoginNut);
+      await this.db.runAsync('UPDATE logins SET identity_disabled = 1 WHERE original_login_nut = ?', [ originalLoginNut ]);
+    });
+  }
+
+  public getLoginStatusAsync(nut: string): Promise<LoginStatusInfo | null> {
+    return this.transactionAsync(async () => {
+      let originalLoginNut: string = await this.resolveOriginalLoginNutAsync(nut);
+      let nutInfo: NutInfo | null = await this.getNutInfoAsync(originalLoginNut);
+      let login: Pick<ISqliteLoginRow, 'completed' | 'identity_disabled'> | undefined = await this.db.getAsync(
+        'SELECT completed, identity_disabled FROM logins WHERE original_login_nut = ? AND expires_at > ?', [ originalLoginNut, Date.now() ]);
+      if (!nutInfo && !login) {
+        return null;
+      }
+      return <LoginStatusInfo> {
+        identityDisabled: login ? !!login.identity_disabled : false,
+        issuedAt: nutInfo ? nutInfo.issuedAt : undefined,
+        loginCompleted: login ? !!login.completed : false,
+      };
+    });
+  }
+
+  public getServerVerifyUnlockKeyAsync(identityPublicKey: string): Promise<string | null> {
+    return this.transactionAsync(async () => {
+      let user: SQRLUserRecord | null = await this.getUserByKeyAsync(identityPublicKey);
+      return user ? user.serverVerifyUnlockPublicKey || null : null;
+    });
+  }
+
+  public queryAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.transactionAsync(async () => {
+      let match = await this.findUserAsync(clientRequestInfo);
+      let result = <AuthCompletionInfo> { tifValues: match.tifValues };
+      if (match.user) {
+        if (match.user.disabled) {
+          // tslint:disable-next-line:no-bitwise
+          result.tifValues |= TIFFlags.IDDisabled;
+        }
+        // A disabled or previous identity needs the suk to sign its 'enable' or rekeying 'ident'.
+        // tslint:disable-next-line:no-bitwise
+        if (clientRequestInfo.returnSessionUnlockKey || match.user.disabled || (match.tifValues & TIFFlags.PreviousIDMatch)) {
+          result.sessionUnlockKey = match.user.serverUnlockPublicKey;
+        }
+      }
+      return result;
+    });
+  }
+
+  public identAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.transactionAsync(async () => {
+      let match = await this.findUserAsync(clientRequestInfo);
+      let user: SQRLUserRecord | undefined = match.user;
+      if (user && user.disabled) {
+        // tslint:disable-next-line:no-bitwise
+        return <AuthCompletionInfo> { tifValues: match.tifValues | TIFFlags.IDDisabled | TIFFlags.CommandFailed };
+      }
+
+      let primaryKey = <string> clientRequestInfo.primaryIdentityPublicKey;
+      let flags = [ clientRequestInfo.useSqrlIdentityOnly ? 1 : 0, clientRequestInfo.hardLockSqrlUse ? 1 : 0 ];
+      if (!user) {
+        if (await this.db.getAsync('SELECT 1 FROM removed_identity_keys WHERE identity_key = ?', [ primaryKey ])) {
+          return <AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed };
+        }
+        await this.db.runAsync(
+          'INSERT INTO users (primary_identity_key, server_unlock_key, server_verify_unlock_key, use_sqrl_identity_only, hard_lock_sqrl_use, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+          [ primaryKey, clientRequestInfo.serverUnlockPublicKey || null, clientRequestInfo.serverVerifyUnlockPublicKey || null,
+            flags[0], flags[1], Date.now() ]);
+      } else if (user.primaryIdentityPublicKey !== primaryKey) {
+        // Rekey to the new identity key, keeping the most recent previous keys.
+        // The client sends new unlock keys with it.
+        let userId: number = (<Pick<ISqliteUserRow, 'id'>> await this.db.getAsync(
+          'SELECT id FROM users WHERE primary_identity_key = ?', [ user.primaryIdentityPublicKey ])).id;
+        await this.db.runAsync('DELETE FROM previous_identity_keys WHERE identity_key = ?', [ primaryKey ]);
+        await this.db.runAsync(
+          'INSERT OR REPLACE INTO previous_identity_keys (identity_key, user_id, replaced_at) VALUES (?, ?, ?)',
+          [ user.primaryIdentityPublicKey, userId, Date.now() ]);
+        await this.db.runAsync(
+          'DELETE FROM previous_identity_keys WHERE user_id = ? AND identity_key NOT IN (SELECT identity_key FROM previous_identity_keys WHERE user_id = ? ORDER BY replaced_at DESC, rowid DESC LIMIT ?)',
+          [ userId, userId, SQRLUserRecord.maxPreviousIdentityKeys ]);
+        await this.db.runAsync(
+          'UPDATE users SET primary_identity_key = ?, server_unlock_key = COALESCE(?, server_unlock_key), server_verify_unlock_key = COALESCE(?, server_verify_unlock_key) WHERE id = ?',
+          [ primaryKey, clientRequestInfo.serverUnlockPublicKey || null, clientRequestInfo.serverVerifyUnlockPublicKey || null, userId ]);
+      }
+      await this.db.runAsync(
+        'UPDATE users SET use_sqrl_identity_only = ?, hard_lock_sqrl_use = ? WHERE primary_identity_key = ?', [ flags[0], flags[1], primaryKey ]);
+      return <AuthCompletionInfo> { tifValues: match.tifValues, user: await this.getUserByKeyAsync(primaryKey) };
+    });
+  }
+
+  public disableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.setDisabledAsync(clientRequestInfo, true);
+  }
+
+  public enableAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.setDisabledAsync(clientRequestInfo, false);
+  }
+
+  public removeAsync(clientRequestInfo: ClientRequestInfo, nutInfo: NutInfo): Promise<AuthCompletionInfo> {
+    return this.transactionAsync(async () => {
+      let match = await this.findUserAsync(clientRequestInfo);
+      if (!match.user) {
+        return <AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed };
+      }
+      let user: SQRLUserRecord = match.user;
+      let userId: number = (<Pick<ISqliteUserRow, 'id'>> await this.db.getAsync(
+        'SELECT id FROM users WHERE primary_identity_key = ?', [ user.primaryIdentityPublicKey ])).id;
+      for (let key of [ user.primaryIdentityPublicKey ].concat(user.previousIdentityPublicKeys)) {
+        await this.db.runAsync(
+          'INSERT OR REPLACE INTO removed_identity_keys (identity_key, removed_at) VALUES (?, ?)', [ key, Date.now() ]);
+      }
+      await this.db.runAsync('DELETE FROM previous_identity_keys WHERE user_id = ?', [ userId ]);
+      await this.db.runAsync('UPDATE logins SET user_id = NULL, user_record = NULL, completed = 0 WHERE user_id = ?', [ userId ]);
+      await this.db.runAsync('DELETE FROM users WHERE id = ?', [ userId ]);
+      return <AuthCompletionInfo> { tifValues: 0 };
+    });
+  }
+
+  private setDisabledAsync(clientRequestInfo: ClientRequestInfo, disabled: boolean): Promise<AuthCompletionInfo> {
+    return this.transactionAsync(async () => {
+      let match = await this.findUserAsync(clientRequestInfo);
+      if (!match.user) {
+        return <AuthCompletionInfo> { tifValues: TIFFlags.CommandFailed };
+      }
+      await this.db.runAsync(
+        'UPDATE users SET disabled = ? WHERE primary_identity_key = ?', [ disabled ? 1 : 0, match.user.primaryIdentityPublicKey ]);
+      // tslint:disable-next-line:no-bitwise
+      return <AuthCompletionInfo> { tifValues: disabled ? match.tifValues | TIFFlags.IDDisabled : match.tifValues };
+    });
+  }
+
+  /** Finds the user by the request's current identity key, then by its previous identity key. */
+  private async findUserAsync(clientRequestInfo: ClientRequestInfo): Promise<{ user?: SQRLUserRecord, tifValues: TIFFlags }> {
+    let user: SQRLUserRecord | null = await this.getUserByKeyAsync(<string> clientRequestInfo.primaryIdentityPublicKey);
+    if (user) {
+      return { user: user, tifValues: TIFFlags.CurrentIDMatch };
+    }
+    if (clientRequestInfo.previousIdentityPublicKey) {
+      user = await this.getUserByKeyAsync(clientRequestInfo.previousIdentityPublicKey);
+      if (user) {
+        return { user: user, tifValues: TIFFlags.PreviousIDMatch };
+      }
+    }
+    return { tifValues: 0 };
+  }
+
+  private async getUserByKeyAsync(identityPublicKey: string): Promise<SQRLUserRecord | null> {
+    let row: Pick<ISqliteUserRow, 'id'> | undefined = await this.db.getAsync(
+      'SELECT id FROM users WHERE primary_identity_key = ?', [ identityPublicKey ]);
+    return row ? this.getUserByIdAsync(row.id) : null;
+  }
+
+  private async getUserByIdAsync(userId: number | null): Promise<SQRLUserRecord | null> {
+    let row: ISqliteUserRow | undefined = await this.db.getAsync('SELECT * FROM users WHERE id = ?', [ userId ]);
+    if (!row) {
+      return null;
+    }
+    let previousKeyRows: Array<{ identity_key: string }> = await this.db.allAsync(
+      'SELECT identity_key FROM previous_identity_keys WHERE user_id = ? ORDER BY replaced_at DESC, rowid DESC', [ userId ]);
+    let user = new SQRLUserRecord();
+    user.primaryIdentityPublicKey = row.primary_identity_key;
+    user.previousIdentityPublicKeys = previousKeyRows.map(keyRow => keyRow.identity_key);
+    user.serverUnlockPublicKey = row.server_unlock_key || undefined;
+    user.serverVerifyUnlockPublicKey = row.server_verify_unlock_key || undefined;
+    user.useSqrlIdentityOnly = !!row.use_sqrl_identity_only;
+    user.hardLockSqrlUse = !!row.hard_lock_sqrl_use;
+    user.disabled = !!row.disabled;
+    return user;
+  }
+
+  private async getNutInfoAsync(nut: string): Promise<NutInfo | null> {
+    let row: ISqliteNutRow | undefined = await this.db.getAsync('SELECT * FROM nuts WHERE nut = ? AND expires_at > ?', [ nut, Date.now() ]);
+    if (!row) {
+      return null;
+    }
+    return <NutInfo> {
+      consumedByRequest: row.consumed_by_request || undefined,
+      issuedAt: new Date(row.issued_at),
+      nut: row.nut,
+      originalLoginNut: row.original_login_nut || undefined,
+      requesterIp: row.requester_ip || undefined,
+      serverResponseBody: row.server_response_body || undefined,
+      url: row.url || undefined,
+    };
+  }
+
+  private async resolveOriginalLoginNutAsync(nut: string): Promise<string> {
+    let info: NutInfo | null = await this.getNutInfoAsync(nut);
+    return info && info.originalLoginNut ? info.originalLoginNut : nut;
+  }
+
+  /** Adds a login row if there is no unexpired one, replacing any expired row. */
+  private async upsertLoginAsync(originalLoginNut: string): Promise<void> {
+    let now = Date.now();
+    await this.db.runAsync('DELETE FROM logins WHERE original_login_nut = ? AND expires_at <= ?', [ originalLoginNut, now ]);
+    await this.db.runAsync(
+      'INSERT OR IGNORE INTO logins (original_login_nut, expires_at) VALUES (?, ?)', [ originalLoginNut, now + this.nutTimeToLiveMsec ]);
+  }
+
+  private async applyMigrationsAsync(): Promise<void> {
+    let version: number = (<{ user_version: number }> await this.db.getAsync('PRAGMA user_version')).user_version;
+    if (version > sqliteMigrations.length) {
+      throw new Error(`SQRL database schema version ${version} is newer than supported version ${sqliteMigrations.length}`);
+    }
+    for (; version < sqliteMigrations.length; version++) {
+      await this.runInTransactionAsync(async () => {
+        for (let statement of sqliteMigrations[version]) {
+          await this.db.runAsync(statement);
+        }
+        await this.db.runAsync(`PRAGMA user_version = ${version + 1}`);
+      });
+    }
+  }
+
+  /** Runs an action in a transaction after any schema migrations and earlier transactions. */
+  private async transactionAsync<T>(action: () => Promise<T>): Promise<T> {
+    await this.migrateAsync();
+    return this.enqueue(() => this.runInTransactionAsync(action));
+  }
+
+  private async runInTransactionAsync<T>(action: () => Promise<T>): Promise<T> {
+    await this.db.runAsync('BEGIN IMMEDIATE');
+    try {
+      let result: T = await action();
+      await this.db.runAsync('COMMIT');
+      return result;
+    } catch (err) {
+      await this.db.runAsync('ROLLBACK');
+      throw err;
+    }
+  }
+
+  /** Serializes actions on the connection, since a SQLite connection holds one transaction at a time. */
+  private enqueue<T>(action: () => Promise<T>): Promise<T> {
+    let result: Promise<T> = this.queue.then(action);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/** Applies a RateLimitConfig to SQRL API requests. */
+class RateLimiter {
+  private windowSeconds: number;
+  private limits: { [prefix: string]: number };
+  private store: IRateLimitStore;
+  private log: ILogger;
+
+  constructor(config: RateLimitConfig, log: ILogger) {
+    this.windowSeconds = valueOrDefault(config.windowSeconds, 60);
+    this.limits = {
+      idk: valueOrDefault(config.maxRequestsPerIdentity, 30),
+      ip: valueOrDefault(config.maxRequestsPerIp, 120),
+      nut: valueOrDefault(config.maxRequestsPerNut, 10),
+    };
+    this.store = config.store || new MemoryRateLimitStore();
+    this.log = log;
+  }
+
+  /** Counts the request against each known key, throwing RateLimitExceededError if any limit is exceeded. */
+  public async checkAsync(ip?: string, idk?: string, nut?: string): Promise<void> {
+    let keys: { [prefix: string]: string | undefined } = { ip: ip, idk: idk, nut: nut };
+    for (let prefix of Object.keys(keys)) {
+      let value = keys[prefix];
+      let limit = this.limits[prefix];
+      if (!value || !limit) {
+        continue;
+      }
+      let count: number = await callStorageAsync(() => this.store.incrementAsync(`${prefix}:${value}`, this.windowSeconds));
+      if (count > limit) {
+        // Log the first rejection in each window as a warning, the rest at debug level.
+        let message = `SQRL API rate limit of ${limit} per ${this.windowSeconds} seconds exceeded for ${prefix} ${value}`;
+        if (count === limit + 1) {
+          this.log.warning(message);
+        } else {
+          this.log.debug(message);
+        }
+        throw new RateLimitExceededError(message);
+      }
+    }
+  }
+}
+
+/**
+ * Base class for errors in SQRL API calls, adding the HTTP status code and the TIF values
+ * sent to the client in the error response.
+ */
+export class SQRLError extends Error {
+  public httpStatusCode: number;
+  public tifValues: TIFFlags;
 
-  /**
-   * Optional previous identity public key that the client wishes to deprecate
-   * in favor of the public key presented in primaryIdentityPublicKey. Typically
-   * this value is absent since identity changes are intended to be rare amongst
-   * SQRL clients.
-   */
-  public previousIdentityPublicKey?: string;
+  constructor(message: string, tifValues: TIFFlags, httpStatusCode: number) {
+    super(message);
+    this.tifValues = tifValues;
+    this.httpStatusCode = httpStatusCode;
+  }
+}
 
-  /**
-   * The public part of an identity key pair that must be retained by the server and
-   * passed back to the client if it needs to perform an identity re-keying operation.
-   * 
-   * See the server unlock protocol discussion at https://www.grc.com/sqrl/idlock.htm .
-   */
-  public serverUnlockPublicKey?: string;
+/** A malformed or invalid client request. The client should not retry the same request. */
+export class ClientInputError extends SQRLError {
+  constructor(message: string, httpStatusCode: number = 400) {
+    // tslint:disable-next-line:no-bitwise
+    super(message, TIFFlags.CommandFailed | TIFFlags.ClientFailure, httpStatusCode);
+  }
+}
 
-  /**
-   * The public part of a key that must be retained by the server and used to verify
-   * the signature of any possible future Unlock Request.
-   * 
-   * See the server unlock protocol discussion at https://www.grc.com/sqrl/idlock.htm .
-   */
-  public serverVerifyUnlockPublicKey?: string;
+/** A client request containing an unknown or unsupported command verb. */
+export class UnsupportedCommandError extends ClientInputError {
+  constructor(message: string) {
+    super(message);
+    // tslint:disable-next-line:no-bitwise
+    this.tifValues = TIFFlags.CommandFailed | TIFFlags.FunctionNotSupported;
+  }
+}
 
-  /**
-   * Optional field sent by the client (in its 'ins=' field) providing
-   * a hash of the server-sent value (in the server's 'sin=' field) using
-   * the primary identity key.
-   */
-  public indexSecret?: string;
+/**
+ * The identity storage layer failed. The client may retry using the nut in the error response.
+ * Errors thrown from ISQRLIdentityStorage methods, other than SQRLError subclasses,
+ * are wrapped in this error.
+ */
+export class StorageError extends SQRLError {
+  /** The error thrown by the storage layer, if any. */
+  public innerError?: any;
 
-  /**
-   * Optional field sent by the client (in its 'pins=' field) providing
-   * a hash of the server-sent value (in the server's 'sin=' field) using
-   * the deprecated identity key (if any) specified in this client request's
-   * previousIdentityPublicKey ('pidk=') field.
-   */
-  public previousIndexSecret?: string;
-  
-  /**
-   * Optional flag from the client ('sqrlonly' in its opt= option flag list, see
-   * https://www.grc.com/sqrl/semantics.htm) in a non-query command, requesting
-   * that the server disable other allowed authentication methods in favor of only SQRL.
-   * The server should ignore this field value in query commands.
-   */
-  public useSqrlIdentityOnly: boolean = false;
+  constructor(message: string, innerError?: any) {
+    // tslint:disable-next-line:no-bitwise
+    super(message, TIFFlags.CommandFailed | TIFFlags.TransientError, 500);
+    this.innerError = innerError;
+  }
+}
 
-  /**
-   * Optional flag from the client ('hardlock' in its opt= option flag list, see
-   * https://www.grc.com/sqrl/semantics.htm) in a non-query command, requesting
-   * that the server disable security question style alternate identity recovery methods.
-   * The server should ignore this field value in query commands.
-   */
-  public hardLockSqrlUse: boolean = false;
+/**
+ * The SQRL identity in the client's request does not match the identity already associated
+ * with the user's session. ISQRLIdentityStorage implementations may throw this error, e.g.
+ * from identAsync(), to return TIFFlags.BadIDAssociation to the client.
+ */
+export class BadIDAssociationError extends SQRLError {
+  constructor(message: string) {
+    // tslint:disable-next-line:no-bitwise
+    super(message, TIFFlags.CommandFailed | TIFFlags.BadIDAssociation, 400);
+  }
+}
 
-  /**
-   * Optional flag from the client ('cps' in its opt= option flag list, see
-   * https://www.grc.com/sqrl/semantics.htm) in an 'ident' command, requesting
-   * that the server return in a url= response the logged-in URL that a client-side
-   * plugin should redirect to after login is completed.
-   */
-  public clientProvidedSession: boolean = false;
+/**
+ * The client presented an expired nut. Per the SQRL protocol the response has TransientError,
+ * and the client may retry using the fresh nut in the error response, which continues the
+ * login of the expired QR-code or follow-up nut.
+ */
+export class StaleNutError extends SQRLError {
+  constructor(message: string) {
+    // tslint:disable-next-line:no-bitwise
+    super(message, TIFFlags.CommandFailed | TIFFlags.TransientError, 400);
+  }
+}
 
-  /**
-   * Optional flag from the client ('suk' in its opt= option flag list, see
-   * https://www.grc.com/sqrl/semantics.htm) in a query command, requesting
-   * that the server return its stored Session Unlock Key value to the client
-   * so it can issue a re-key request.
-   */
-  public returnSessionUnlockKey: boolean = false;
+/**
+ * The client exceeded a SQRL API rate limit (see SQRLStrategyConfig.rateLimits). The client
+ * may retry later using the nut in the error response, which continues the login of the
+ * nut it presented.
+ */
+export class RateLimitExceededError extends SQRLError {
+  constructor(message: string) {
+    // tslint:disable-next-line:no-bitwise
+    super(message, TIFFlags.CommandFailed | TIFFlags.TransientError, 429);
+  }
+}
 
-  /**
-   * Optional client information (the 'btn=' information field) containing the
-   * user's response to a previously presented server "ask" presented to the client.
-   * This value, if presemt, is 1, 2, or 3 corresponding the ask selection buttons
-   * 1 or 2, or 3 for the question having been dismissed without answering.
-   */
-  public serverAskResponseSelection?: number;
+/**
+ * A request blocked by SQRLOptionsEnforcer middleware because the user it acts on set the
+ * sqrlonly or hardlock option. Passed to the Express error handler with HTTP status 403.
+ */
+export class SQRLRestrictedError extends SQRLError {
+  /** The user's option that blocked the request. */
+  public restriction: SQRLRestriction;
 
-  /**
-   * A new nut that will be returned in the nut= server response.
-   * The auth handler should store this nut in its "Recently Issued Nuts"
-   * cache to allow responding to NutCheckCallback calls.
-   */
-  public nextNut?: string;
+  constructor(restriction: SQRLRestriction) {
+    super(restriction === SQRLRestriction.SqrlOnly ?
+      'This account only allows SQRL logins' :
+      'This account does not allow identity recovery other than through SQRL', 0, 403);
+    this.restriction = restriction;
+  }
+}
 
-  /**
-   * The relative URL to be passed back in the qry= server response field for
-   * the next communication from the client.
-   */
-  public nextUrl?: string;
+/** Returns the value if defined, allowing zero, else the default. */
+function valueOrDefault(value: number | undefined, defaultValue: number): number {
+  return value !== undefined ? value : defaultValue;
+}
 
-  /** Provides a Buffer version of primaryIdentityPublicKey. */
-  public primaryIdentityPublicKeyBuf(): Buffer | null {
-    if (this.primaryIdentityPublicKey) {
-      return Buffer.from(this.primaryIdentityPublicKey, 'base64');
+/** Runs a storage call, rethrowing unexpected failures as StorageError. */
+async function callStorageAsync<T>(storageCall: () => Promise<T>): Promise<T> {
+  try {
+    return await storageCall();
+  } catch (err) {
+    if (err instanceof SQRLError) {
+      throw err;
     }
-    return null;
+    throw new StorageError(`Identity storage call failed: ${err}`, err);
   }
 }
 
-/** Provided to the SQRL strategy constructor to provide configuration information. */
-export class SQRLStrategyConfig {
-  /** Provides the domain name to use in generating SQRL URLs to send to clients. */
-  public localDomainName: string = 'please-configure-me.com';
+/** The lineage of a SQRL API call in progress, for composing an error response if it fails. */
+class SqrlRequestState {
+  /** The original QR-code nut leading to the nut presented by the client, once known. */
+  public originalLoginNut?: string;
 
-  /** The port. If not specified the URL will not include one and the browser will use the appropriate default. */
-  public port?: number;
+  /** The IP address of the browser that requested the login page, if known. */
+  public loginRequesterIp?: string;
+}
 
+/** Parses and verifies the various parts of SQRL requests. Public for unit testing. */
+export class BodyParser {
   /**
-   * The URL path to the site's login route that receives the SQRL
-   * client's HTTP POST, used for generating SQRL URLs. Typically
-   * you set this to the same string as the route used to wire up
-   * the SQRL passport strategy.
+   * Parses a SQRL ver= field value, a comma separated list of protocol revisions and
+   * inclusive dash-separated revision ranges, e.g. '1-3,5'. Returns the revisions sorted
+   * in ascending order without duplicates.
    */
-  public urlPath?: string;
+  public static parseVersionList(ver: string): number[] {
+    let versions: number[] = [];
+    ver.split(',').forEach(item => {
+      let rangeLoHi: string[] = item.split('-');
+      if (rangeLoHi.length > 2 || rangeLoHi.some(v => !/^\d+$/.test(v))) {
+        throw new ClientInputError(`Version value ${item} is malformed`);
+      }
+      let lo = Number(rangeLoHi[0]);
+      let hi = Number(rangeLoHi[rangeLoHi.length - 1]);
+      if (hi < lo || hi - lo > maxVersionRangeLength) {
+        throw new ClientInputError(`Version range ${item} is malformed`);
+      }
+      for (let v = lo; v <= hi; v++) {
+        if (versions.indexOf(v) < 0) {
+          versions.push(v);
+        }
+      }
+    });
+    return versions.sort((a, b) => a - b);
+  }
+
+  /** Formats an ascending list of protocol revisions as a ver= field value, collapsing runs into ranges. */
+  public static formatVersionList(versions: number[]): string {
+    let items: string[] = [];
+    let i = 0;
+    while (i < versions.length) {
+      let j = i;
+      while (j + 1 < versions.length && versions[j + 1] === versions[j] + 1) {
+        j++;
+      }
+      items.push(j > i ? `${versions[i]}-${versions[j]}` : `${versions[i]}`);
+      i = j + 1;
+    }
+    return items.join(',');
+  }
 
   /**
-   * The length of the urlPath (including an implicit '/' prefix)
-   * that the SQRL client should include in its hash calculations
-   * when generating a per-site key pair. This does not need to be
-   * specified if the base domain name is sufficient as a site key.
-   * It should be specified if the URL path includes a portion
-   * that produces the semantics of a separate site, e.g. on GitHub
-   * the /username or /username/reponame if a unique key is needed
-   * for such paths.
+   * Returns a base64url SHA-256 digest of the signed client= and server= fields of a request,
+   * identifying an exact retry of the request.
    */
-  public domainExtension?: number;
+  public static requestFingerprint(params: any): string {
+    return base64url.encode(crypto.createHash('sha256')
+        .update(`${params.client}\n${params.server}`, 'utf8')
+        .digest());
+  }
 
   /**
-   * An optional "nut" generator. When undefined, a cryptographically
-   * strong random value is generated. When defined,
-   * the configured callback can generate any desired "nut" including
-   * values from the ExpressJS request (e.g. client IP, datetime, and
-   * so on - see the "pre-login state" section at
-   * https://www.grc.com/sqrl/server.htm).
-   * 
-   * When a Buffer is returned, the byte values of the buffer are
-   * converted to a base64 string, minus any appended '=' characters,
-   * as part of composing the URL.
+   * Returns the nut from a client's server= field, which contains either the QR-code URL
+   * or the previous server response body. Returns undefined if no nut is present.
    */
-  public nutGenerator?: (req: express.Request) => string | Buffer;
+  public static getNutFromServerField(server: string): string | undefined {
+    let serverDecoded = base64url.decode(server);
+    if (serverDecoded.startsWith('sqrl')) {
+      let qrCodeUrl: urlLib.Url = urlLib.parse(serverDecoded, /*parseQueryString:*/true);
+      return qrCodeUrl.query && typeof qrCodeUrl.query !== 'string' && qrCodeUrl.query.nut ? qrCodeUrl.query.nut.toString() : undefined;
+    }
+    let serverProps = BodyParser.parseBase64CRLFSeparatedFields(server);
+    return serverProps.nut;
+  }
 
   /**
-   * The URL, typically a relative URL on the site, where the client
-   * should redirect on a successful login. This is used in response
-   * to SQRL commands other than 'query' that specify the cps
-   * (client-provided session) option asking for a success redirect.
-   * It is sent to the client in the url= response parameter
-   * (see https://www.grc.com/sqrl/semantics.htm).
+   * Extracts the identity key and nut from a request without validating it, for rate
+   * limiting before signature verification. Fields that cannot be parsed are omitted.
    */
-  public clientLoginSuccessUrl?: string;
+  public static peekIdentityAndNut(params: any): { idk?: string, nut?: string } {
+    let result: { idk?: string, nut?: string } = {};
+    try {
+      result.idk = params && params.client ? BodyParser.parseBase64CRLFSeparatedFields(params.client).idk : undefined;
+    } catch {
+      // Malformed, rejected later in parsing.
+    }
+    try {
+      result.nut = params && params.server ? BodyParser.getNutFromServerField(params.server) : undefined;
+    } catch {
+      // Malformed, rejected later in parsing.
+    }
+    return result;
+  }
 
   /**
-   * Optional 302 redirect that a same-device (browser plugin) SQRL
-   * client can use to redirect the client if the user cancels
-   * the authentication flow. This value is encoded in the can=
-   * body field (see https://www.grc.com/sqrl/semantics.htm).
+   * Parses a raw application/x-www-form-urlencoded SQRL API request body. Throws ClientInputError
+   * for another content type or charset, non-ASCII content, or repeated fields.
    */
-  public clientCancelAuthUrl?: string;
-}
-
-/** Data class containing information about a nut from identity storage. */
-export class NutInfo {
-  /** The unique nut nonce generated and sent to a client. */
-  public nut?: string;
-  
-  /** The nut value from an original QR code, for backtracking from this later nut. */
-  public originalLoginNut?: string;
-}
+  public static parseUrlEncodedBody(body: Buffer | string, contentType?: string): any {
+    if (contentType) {
+      let typeParts: string[] = contentType.split(';').map(part => part.trim().toLowerCase());
+      if (typeParts[0] !== 'application/x-www-form-urlencoded') {
+        throw new ClientInputError(`Unsupported request content type ${typeParts[0]}`, 415);
+      }
+      typeParts.slice(1).forEach(param => {
+        let charset: string = param.startsWith('charset=') ? param.substring(8).replace(/"/g, '') : 'utf-8';
+        if (charset !== 'utf-8' && charset !== 'utf8' && charset !== 'us-ascii') {
+          throw new ClientInputError(`Unsupported request charset ${charset}`, 415);
+        }
+      });
+    }
 
-/** Error subclass that adds an HTTP status code. */
-export class ClientInputError extends Error {
-  public httpStatusCode: number;
+    // SQRL fields are base64url and integers, so any valid body is 7-bit ASCII.
+    let bodyString: string = typeof body === 'string' ? body : body.toString('latin1');
+    if (!/^[\x20-\x7e\r\n\t]*$/.test(bodyString)) {
+      throw new ClientInputError('Request body contains non-ASCII characters');
+    }
 
-  constructor(message: string, httpStatusCode: number = 400) {
-    super(message);
-    this.httpStatusCode = httpStatusCode;
+    let fields: any = querystring.parse(bodyString.trim());
+    Object.keys(fields).forEach(name => {
+      if (Array.isArray(fields[name])) {
+        throw new ClientInputError(`Request body repeats the ${name}= field`);
+      }
+    });
+    return fields;
   }
-}
 
-/** Parses and verifies the various parts of SQRL requests. Public for unit testing. */
-export class BodyParser {
   /** Reverses base64url encoding then parses the expected CRLF separated fields. */
   public static parseBase64CRLFSeparatedFields(base64Props: string): any {
     let preSplit: string = base64url.decode(base64Props);
@@ -766,7 +4287,7 @@ export class BodyParser {
       // The name is considered everything up to the first = sign; the value everything after.
       let eqIndex = line.indexOf('=');
       if (eqIndex < 1) {
-        throw new Error(`Failure parsing response line - no equal sign found in: ${line}`);
+        throw new ClientInputError(`Malformed SQRL field line - no equal sign found in: ${line}`);
       }
       let name = line.substring(0, eqIndex);
       let val = line.substring(eqIndex + 1);
@@ -793,9 +4314,12 @@ export class BodyParser {
    *   corresponding private keys of the deprecated "previous IDs."
    * unlockRequestSignature An optional 'urs' string provided by the client, containing a base64url
    *   encoding of the 512-bit signature of the UTF-8 concatenation of the client and server strings,
-   *   signed using the private Unlock Request Signing Key. The web server uses this The presence of this field and the corresponding
+   *   signed using the private Unlock Request Signing Key. The signature is not verified here as that
+   *   requires the stored Server Verify Unlock Key; see verifyUnlockRequestSignature().
+   * @param signatureVerifier The Ed25519 verifier for the signatures. Defaults to a NodeCryptoSignatureVerifier.
    */
-  public static parseAndValidateRequestFields(params: any): ClientRequestInfo {
+  public static parseAndValidateRequestFields(
+      params: any, signatureVerifier: ISignatureVerifier = defaultSignatureVerifier): ClientRequestInfo {
     if (!params) {
       throw new ClientInputError("Body is required");
     }
@@ -808,7 +4332,8 @@ export class BodyParser {
 
     let clientProps = BodyParser.parseBase64CRLFSeparatedFields(params.client);
     let requestInfo = <ClientRequestInfo> {
-      protocolVersion: Number(clientProps.ver),
+      protocolVersion: 0,  // Set by version negotiation
+      clientProtocolVersions: clientProps.ver ? BodyParser.parseVersionList(clientProps.ver) : [],
       sqrlCommand: clientProps.cmd,
       primaryIdentityPublicKey: clientProps.idk,
       previousIdentityPublicKey: clientProps.pidk,
@@ -816,10 +4341,25 @@ export class BodyParser {
       serverVerifyUnlockPublicKey: clientProps.vuk,
       indexSecret: clientProps.ins,
       previousIndexSecret: clientProps.pins,
+      unlockRequestSignature: params.urs,
+      unlockRequestSignatureVerified: false,
     };
+    if (clientProps.btn) {
+      let selection = Number(clientProps.btn);
+      if (selection !== 1 && selection !== 2 && selection !== 3) {
+        throw new ClientInputError(`btn= field must be 1, 2, or 3, found ${clientProps.btn}`);
+      }
+      requestInfo.serverAskResponseSelection = selection;
+    }
     if (!requestInfo.primaryIdentityPublicKey) {
       throw new ClientInputError('Missing primary identity public key field in SQRL request');
     }
+    if (requestInfo.indexSecret && base64url.toBuffer(requestInfo.indexSecret).length !== 32) {
+      throw new ClientInputError('ins= index secret field must be a 256-bit value');
+    }
+    if (requestInfo.previousIndexSecret && base64url.toBuffer(requestInfo.previousIndexSecret).length !== 32) {
+      throw new ClientInputError('pins= previous index secret field must be a 256-bit value');
+    }
     if (!params.ids) {
       throw new ClientInputError('Missing ids= primary key signature field in SQRL request');
     }
@@ -829,7 +4369,7 @@ export class BodyParser {
     let clientServer = Buffer.from(params.client + params.server, 'utf8');
     let primaryKeySignature = Buffer.from(params.ids, 'base64');
     let primaryPublicKey = Buffer.from(requestInfo.primaryIdentityPublicKey, 'base64');
-    let primaryOK = ed25519.Verify(clientServer, primaryKeySignature, primaryPublicKey);
+    let primaryOK = BodyParser.verifySignature(signatureVerifier, clientServer, primaryKeySignature, primaryPublicKey);
     if (!primaryOK) {
       throw new ClientInputError('Primary public key did not verify correctly');
     }
@@ -840,21 +4380,14 @@ export class BodyParser {
       }
       let previousKeySignature = Buffer.from(params.pids, 'base64');
       let previousPublicKey = Buffer.from(requestInfo.previousIdentityPublicKey, 'base64');
-      previousOK = ed25519.Verify(clientServer, previousKeySignature, previousPublicKey);
+      previousOK = BodyParser.verifySignature(signatureVerifier, clientServer, previousKeySignature, previousPublicKey);
       if (!previousOK) {
         throw new ClientInputError('Previous public key did not verify correctly');
       }
     }
 
     // Decode the server= fields and verify a nut is present, and promote into the result.
-    let serverDecoded = base64url.decode(params.server);
-    if (serverDecoded.startsWith('sqrl')) {
-      let qrCodeUrl: urlLib.Url = urlLib.parse(serverDecoded, /*parseQueryString:*/true);
-      requestInfo.nut = qrCodeUrl.query && typeof qrCodeUrl.query !== 'string' && qrCodeUrl.query.nut ? qrCodeUrl.query.nut.toString() : undefined;
-    } else {
-      let serverProps = BodyParser.parseBase64CRLFSeparatedFields(params.server);
-      requestInfo.nut = serverProps.nut;
-    }
+    requestInfo.nut = BodyParser.getNutFromServerField(params.server);
     if (!requestInfo.nut) {
       throw new ClientInputError('server= info from client is not either a QR-code URL with nut= query param or a server response with nut= field');
     }
@@ -875,6 +4408,9 @@ export class BodyParser {
           case 'suk':
             requestInfo.returnSessionUnlockKey = true;
             break;
+          case 'noiptest':
+            requestInfo.skipIpAddressTest = true;
+            break;
           default:
             throw new ClientInputError(`Unknown SQRL client option ${opt}`);
         }
@@ -883,6 +4419,133 @@ export class BodyParser {
 
     return requestInfo;
   }
+
+  /**
+   * Verifies the urs= Unlock Request Signature in the request parameters against a
+   * Server Verify Unlock Key. Returns false if the signature is absent or does not verify.
+   */
+  public static verifyUnlockRequestSignature(
+      params: any, serverVerifyUnlockPublicKey: string,
+      signatureVerifier: ISignatureVerifier = defaultSignatureVerifier): boolean {
+    if (!params || !params.urs || !params.client || !params.server) {
+      return false;
+    }
+    let clientServer = Buffer.from(params.client + params.server, 'utf8');
+    let unlockSignature = Buffer.from(params.urs, 'base64');
+    let verifyUnlockKey = Buffer.from(serverVerifyUnlockPublicKey, 'base64');
+    return BodyParser.verifySignature(signatureVerifier, clientServer, unlockSignature, verifyUnlockKey);
+  }
+
+  /** Verifies an Ed25519 signature, first rejecting a signature or key of the wrong length. */
+  public static verifySignature(
+      signatureVerifier: ISignatureVerifier, message: Buffer, signature: Buffer, publicKey: Buffer): boolean {
+    return signature.length === 64 && publicKey.length === 32 &&
+        signatureVerifier.verify(message, signature, publicKey);
+  }
+
+  /**
+   * Returns the sin= secret index request, if any, from the response body issued along with
+   * a follow-up nut. Original QR-code nuts never carry a secret index request.
+   */
+  public static getIssuedSecretIndex(nutInfo: NutInfo): string | undefined {
+    if (!nutInfo.serverResponseBody) {
+      return undefined;
+    }
+    let serverProps = BodyParser.parseBase64CRLFSeparatedFields(nutInfo.serverResponseBody);
+    return serverProps.sin;
+  }
+
+  /**
+   * Returns the tif= value from the response body issued along with a follow-up nut, or
+   * undefined for an original QR-code nut.
+   */
+  public static getIssuedTifValues(nutInfo: NutInfo): TIFFlags | undefined {
+    if (!nutInfo.serverResponseBody) {
+      return undefined;
+    }
+    let serverProps = BodyParser.parseBase64CRLFSeparatedFields(nutInfo.serverResponseBody);
+    let tif: number = parseInt(serverProps.tif, 16);
+    return isNaN(tif) ? undefined : tif;
+  }
+
+  /**
+   * Returns the ask= dialog, if any, from the response body issued along with
+   * a follow-up nut.
+   */
+  public static getIssuedAsk(nutInfo: NutInfo): AskMessage | undefined {
+    if (!nutInfo.serverResponseBody) {
+      return undefined;
+    }
+    let serverProps = BodyParser.parseBase64CRLFSeparatedFields(nutInfo.serverResponseBody);
+    return serverProps.ask ? BodyParser.parseAskField(serverProps.ask) : undefined;
+  }
+
+  /**
+   * Encodes an ask= field value. The message and each button label and URL are base64url
+   * encoded so that their text cannot collide with the '~' separator between the message
+   * and buttons, or the ';' separator between a button label and its URL.
+   */
+  public static encodeAskField(ask: AskMessage): string {
+    if ((ask.button1Url && !ask.button1Label) || (ask.button2Url && !ask.button2Label)) {
+      throw new Error('An ask button URL requires a button label');
+    }
+    if (ask.button2Label && !ask.button1Label) {
+      throw new Error('Ask button 2 requires button 1');
+    }
+
+    let encodeButton = (label: string, url?: string): string =>
+        base64url.encode(label) + (url ? ';' + base64url.encode(url) : '');
+
+    let parts: string[] = [ base64url.encode(ask.message || '') ];
+    if (ask.button1Label) {
+      parts.push(encodeButton(ask.button1Label, ask.button1Url));
+    }
+    if (ask.button2Label) {
+      parts.push(encodeButton(ask.button2Label, ask.button2Url));
+    }
+    return parts.join('~');
+  }
+
+  /** Reverses encodeAskField(). */
+  public static parseAskField(askField: string): AskMessage {
+    let parts: string[] = askField.split('~');
+    if (parts.length > 3) {
+      throw new Error(`ask= field has more than two buttons: ${askField}`);
+    }
+    let ask = new AskMessage();
+    ask.message = base64url.decode(parts[0]);
+    if (parts.length > 1) {
+      let button1Parts = parts[1].split(';');
+      ask.button1Label = base64url.decode(button1Parts[0]);
+      if (button1Parts.length > 1) {
+        ask.button1Url = base64url.decode(button1Parts[1]);
+      }
+    }
+    if (parts.length > 2) {
+      let button2Parts = parts[2].split(';');
+      ask.button2Label = base64url.decode(button2Parts[0]);
+      if (button2Parts.length > 1) {
+        ask.button2Url = base64url.decode(button2Parts[1]);
+      }
+    }
+    return ask;
+  }
+
+  /**
+   * Verifies that the client's server= value is exactly the value this server issued along
+   * with the presented nut: the QR-code SQRL URL for an original nut, or the base64url
+   * response body for a follow-up nut. See the url and serverResponseBody fields of NutInfo.
+   */
+  public static serverValueMatchesNutInfo(server: string, nutInfo: NutInfo): boolean {
+    if (!server) {
+      return false;
+    }
+    let serverDecoded = base64url.decode(server);
+    if (serverDecoded.startsWith('sqrl')) {
+      return !!nutInfo.url && serverDecoded === nutInfo.url;
+    }
+    return !!nutInfo.serverResponseBody && trimEqualsChars(server) === trimEqualsChars(nutInfo.serverResponseBody);
+  }
 }
 
 /**
@@ -29,7 +29,7 @@ import * as qr from 'qr-image';
 import * as favicon from 'serve-favicon';
 import * as spdy from 'spdy';
 import { promisify } from 'util';
-import { AuthCompletionInfo, ClientRequestInfo, ILogger, ISQRLIdentityStorage, NutInfo, SQRLExpress, SQRLStrategy, SQRLStrategyConfig, TIFFlags, UrlAndNut } from '../passport-sqrl';
+import { AuthCompletionInfo, ClientRequestInfo, ILogger, ISQRLIdentityStorage, LoginStatusConfig, LoginStatusInfo, NutInfo, SQRLExpress, SQRLLoginStatus, SQRLStrategy, SQRLStrategyConfig, SQRLUserRecord, TIFFlags, UrlAndNut } from '../passport-sqrl';
 
 // TypeScript definitions for SPDY do not include an overload that allows the common
 // Express app pattern as a param. Inject an overload to avoid compilation errors.
@@ -45,17 +45,17 @@ declare module 'http' {
   export function createServer(handler: express.Application): Server;
 }
 
-// Promisify extensions.
-declare module 'nedb' {
-  class Nedb {
-    public findOneAsync(query: any): Promise<any>;
-    public insertAsync(newDoc: any): Promise<any>;
-    public updateAsync(query: any, updateQuery: any, options?: Nedb.UpdateOptions): Promise<number>;
-  }
+// Promisify extensions, added to every NeDB datastore.
+interface IPromisifiedDatastore extends neDB {
+  findOneAsync(query: any): Promise<any>;
+  insertAsync(newDoc: any): Promise<any>;
+  updateAsync(query: any, updateQuery: any, options?: neDB.UpdateOptions): Promise<number>;
+  removeAsync(query: any, options: neDB.RemoveOptions): Promise<number>;
 }
 (<any> neDB).prototype.findOneAsync = promisify(neDB.prototype.findOne);
 (<any> neDB).prototype.insertAsync = promisify(neDB.prototype.insert);
 (<any> neDB).prototype.updateAsync = promisify(neDB.prototype.update);
+(<any> neDB).prototype.removeAsync = promisify(neDB.prototype.remove);
 
 const serverTlsCertDir = __dirname;
 const serverTlsKey = serverTlsCertDir + "/TestSite.PrivateKey.pem";
@@ -70,10 +70,10 @@ const oneDayInSeconds = 24 * 3600;
 export class TestSiteHandler implements ISQRLIdentityStorage {
   private testSiteServer: spdy.Server;
   private httpCertServer: http.Server;
-  private sqrlPassportStrategy: SQRLStrategy;
+  private sqrlLoginStatus: SQRLLoginStatus;
   private sqrlApiHandler: SQRLExpress;
-  private userTable: neDB;
-  private nutTable: neDB;
+  private userTable: IPromisifiedDatastore;
+  private nutTable: IPromisifiedDatastore;
   private log: ILogger;
 
   constructor(log: ILogger, port: number = 5858, domainName: string | null = null) {
@@ -82,12 +82,15 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
     const sqrlApiRoute = '/sqrl';
     const loginPageRoute = '/login';
     const pollNutRoute = '/pollNut/:nut';
+    const loginEventsRoute = '/loginEvents/:nut';
+    const cpsLoginRoute = '/cpsLogin';
     const loginSuccessRedirect = '/';
 
-    this.userTable = new neDB(<neDB.DataStoreOptions> { inMemoryOnly: true });
-    this.nutTable = new neDB(<neDB.DataStoreOptions> { inMemoryOnly: true });
+    this.userTable = <IPromisifiedDatastore> new neDB(<neDB.DataStoreOptions> { inMemoryOnly: true });
+    this.nutTable = <IPromisifiedDatastore> new neDB(<neDB.DataStoreOptions> { inMemoryOnly: true });
 
     let sqrlConfig = <SQRLStrategyConfig> {
+      clientLoginSuccessUrl: cpsLoginRoute,
       localDomainName: domainName || this.getLocalIPAddresses()[0],
       port: port,
       urlPath: sqrlApiRoute,
@@ -97,11 +100,16 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
     // handles this API for us.
     this.sqrlApiHandler = new SQRLExpress(this, this.log, sqrlConfig);
 
-    // Configure PassportJS with the SQRL Strategy. PassportJS will add the
-    // implicit res.login() method used later on. We use the user's SQRL primary
+    // The login page polls SQRLLoginStatus, which logs in the browser session through
+    // PassportJS once the SQRL client completes the login. We use the user's SQRL primary
     // public key as the key for the user profile in back-end database storage.
-    this.sqrlPassportStrategy = new SQRLStrategy(this.log, sqrlConfig);
-    passport.use(this.sqrlPassportStrategy);
+    this.sqrlLoginStatus = new SQRLLoginStatus(this, this.log, sqrlConfig, <LoginStatusConfig> {
+      loginSuccessRedirect: loginSuccessRedirect,
+    });
+
+    // A same-device SQRL client using the cps option redirects the browser to
+    // cpsLoginRoute with a one-time token, which SQRLStrategy redeems.
+    passport.use(new SQRLStrategy(this.log, sqrlConfig, this));
     passport.serializeUser((user: UserDBRecord, done) => done(null, user.sqrlPrimaryIdentityPublicKey));
     passport.deserializeUser((id: any, done: (err: Error | null, doc: any) => void) => this.findUser(id, done));
 
@@ -163,6 +171,10 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
               sqrlNut: urlAndNut.nutString,
               sqrlQR: qrSvg
             });
+          })
+          .catch(err => {
+            this.log.error(`/login failed storing nut ${urlAndNut.nutString}: ${err}`);
+            res.status(500).send('Internal server error');
           });
       })
 
@@ -177,51 +189,13 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
       // ----------------------------------------------------------------------
       // Used by login.ejs
       // ----------------------------------------------------------------------
-      .get(pollNutRoute, (req, res) => {
-        if (req.params.nut) {
-          this.getNutRecordAsync(req.params.nut)
-            .then(nutRecord => {
-              if (!nutRecord) {
-                this.log.debug(`pollNut: ${req.params.nut}: No nut record, returning 404`);
-                res.statusCode = 404;
-                res.end();
-              } else if (!nutRecord.loggedIn || !nutRecord.clientPrimaryIdentityPublicKey) {
-                this.log.finest(() => `pollNut: ${req.params.nut}: Nut not logged in`);
-                res.send(<NutPollResult> { loggedIn: false });
-              } else {
-                this.findUser(nutRecord.clientPrimaryIdentityPublicKey, (err: Error | null, userDBRecord: UserDBRecord | null) => {
-                  if (err) {
-                    this.log.debug(`pollNut: ${req.params.nut}: Error finding user: ${err}`);
-                    res.statusCode = 500;
-                    res.send(err.toString());
-                  } else {
-                    this.log.debug(`pollNut: ${req.params.nut}: Nut logged in, logging user in via PassportJS`);
-                    // Ensure the cookie header for the response is set the way Passport normally does it.
-                    req.login(userDBRecord, loginErr => {
-                      if (loginErr) {
-                        this.log.debug(`pollNut: ${req.params.nut}: PassportJS login failed: ${loginErr}`);
-                        res.statusCode = 400;
-                        res.send(loginErr.toString());
-                      } else {
-                        res.send(<NutPollResult> {
-                          loggedIn: nutRecord.loggedIn,
-                          redirectTo: loginSuccessRedirect
-                        });
-                      }
-                    });
-                  }
-                });
-              }
-            })
-            .catch(reason => {
-              res.statusCode = 400;
-              res.send(reason);
-            });
-        } else {
-          res.statusCode = 404;
-          res.end();
-        }
-      })
+      .get(pollNutRoute, this.sqrlLoginStatus.handleLoginStatus)
+      .get(loginEventsRoute, this.sqrlLoginStatus.handleLoginEvents)
+
+      // ----------------------------------------------------------------------
+      // Redirect target of same-device SQRL clients using the cps option.
+      // ----------------------------------------------------------------------
+      .get(cpsLoginRoute, passport.authenticate('sqrl', { successRedirect: loginSuccessRedirect, failureRedirect: loginPageRoute }))
 
       // ----------------------------------------------------------------------
       // Main page. Redirects to /login if there is no logged-in user
@@ -304,27 +278,49 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
   // See doc comments on ISQRLIdentityStorage.nutIssuedToClientAsync().
   public async nutIssuedToClientAsync(urlAndNut: UrlAndNut, originalLoginNut?: string): Promise<void> {
     this.log.finest(() => `nutIssuedToClientAsync: Storing nut ${urlAndNut.nutString}`);
-    await (<any> this.nutTable).insertAsync(new NutDBRecord(urlAndNut.nutString, urlAndNut.url, originalLoginNut));
+    await this.nutTable.insertAsync(new NutDBRecord(urlAndNut, originalLoginNut));
     this.log.finest(() => `nutIssuedToClientAsync: Stored nut ${urlAndNut.nutString}`);
   }
 
-  public async getNutInfoAsync(nut: string): Promise<NutInfo | null> {
-    this.log.finest(() => `getNutInfoAsync: Retrieving nut ${nut}`);
+  public async consumeNutAsync(nut: string, requestFingerprint: string): Promise<NutInfo | null> {
+    // Conditional update first so that only one caller can mark the nut used.
+    let numUpdated: number = await this.nutTable.updateAsync(
+        { nut: nut, consumedByRequest: { $exists: false } },
+        { $set: { consumedByRequest: requestFingerprint } });
     let nutDBRecord = await this.getNutRecordAsync(nut);  // NutDBRecord derives from NutInfo.
     if (!nutDBRecord) {
-      this.log.finest(() => `getNutInfoAsync: Nut ${nut} not found`);
+      this.log.finest(() => `consumeNutAsync: Nut ${nut} not found`);
+    } else if (numUpdated) {
+      this.log.finest(() => `consumeNutAsync: Nut ${nut} found and marked used`);
+      nutDBRecord.consumedByRequest = undefined;  // Return the state before this call
     } else {
-      this.log.finest(() => `getNutInfoAsync: Nut ${nut} found`);
+      this.log.finest(() => `consumeNutAsync: Nut ${nut} found, already used`);
     }
     return nutDBRecord;
   }
 
+  public async getServerVerifyUnlockKeyAsync(identityPublicKey: string): Promise<string | null> {
+    let searchRecord = <UserDBRecord> {
+      sqrlPrimaryIdentityPublicKey: identityPublicKey,
+    };
+    let userDBRecord: UserDBRecord | null = await this.userTable.findOneAsync(searchRecord);
+    return userDBRecord ? userDBRecord.sqrlServerVerifyUnlockPublicKey || null : null;
+  }
+
   public async queryAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> {
     // SQRL query. We don't create any new user records, just return whether we know about the user.
     let authInfo: AuthCompletionInfo = await this.findUserByEitherKeyAsync(clientRequestInfo);
-    if (authInfo.user && clientRequestInfo.returnSessionUnlockKey) {
+    if (authInfo.user) {
       let user = <UserDBRecord> authInfo.user;
-      authInfo.sessionUnlockKey = user.sqrlServerUnlockPublicKey;
+      if (user.sqrlDisabled) {
+        // tslint:disable-next-line:no-bitwise
+        authInfo.tifValues |= TIFFlags.IDDisabled;
+      }
+      // tslint:disable-next-line:no-bitwise
+      if (clientRequestInfo.returnSessionUnlockKey || user.sqrlDisabled || (authInfo.tifValues & TIFFlags.PreviousIDMatch)) {
+        // The client needs the suk to sign the enable, remove, or rekeying ident request.
+        authInfo.sessionUnlockKey = user.sqrlServerUnlockPublicKey;
+      }
     }
     return authInfo;
   }
@@ -335,59 +331,133 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
     if (authInfo.user) {
       // tslint:disable-next-line:no-bitwise
       if (authInfo.tifValues & TIFFlags.PreviousIDMatch) {
-        // The user has specified a new primary key, rearrange the record and update.
-        let user = authInfo.user;
-        if (!user.sqrlPreviousIdentityPublicKeys) {
-          user.sqrlPreviousIdentityPublicKeys = [];
+        // The user has specified a new primary key, rearrange the record and update. The
+        // update only matches while the record still has the previous key, so only one of
+        // two concurrent rekeys from the same previous identity can succeed.
+        let user = <UserDBRecord> authInfo.user;
+        let previousKey = <string> clientRequestInfo.previousIdentityPublicKey;
+        let primaryKey = <string> clientRequestInfo.primaryIdentityPublicKey;
+        let searchRecord = { _id: user._id, sqrlPrimaryIdentityPublicKey: previousKey };
+        let numUpdated: number = await this.userTable.updateAsync(searchRecord, { $set: {
+          sqrlPrimaryIdentityPublicKey: primaryKey,
+          sqrlPreviousIdentityPublicKeys: SQRLUserRecord.previousKeysAfterRekey(user.sqrlPreviousIdentityPublicKeys || [], previousKey, primaryKey),
+          sqrlServerUnlockPublicKey: clientRequestInfo.serverUnlockPublicKey || user.sqrlServerUnlockPublicKey,
+          sqrlServerVerifyUnlockPublicKey: clientRequestInfo.serverVerifyUnlockPublicKey || user.sqrlServerVerifyUnlockPublicKey,
+        } });
+        if (numUpdated !== 1) {
+          // tslint:disable-next-line:no-bitwise
+          authInfo.tifValues |= TIFFlags.CommandFailed;
+          authInfo.user = undefined;
+          return authInfo;
         }
-        user.sqrlPreviousIdentityPublicKeys.push(clientRequestInfo.previousIdentityPublicKey);  // TODO: Dedup
-        user.sqrlPrimaryIdentityPublicKey = clientRequestInfo.primaryIdentityPublicKey;
-        let searchRecord = <UserDBRecord> {
-          sqrlPrimaryIdentityPublicKey: clientRequestInfo.previousIdentityPublicKey
-        };
-        authInfo.user = await (<any> this.userTable).updateAsync(searchRecord, user);
+        authInfo.user = await this.userTable.findOneAsync({ _id: user._id });
       }
+
+      // Keep the sqrlonly and hardlock options the client sent with this ident.
+      let options = {
+        sqrlUseSqrlIdentityOnly: clientRequestInfo.useSqrlIdentityOnly,
+        sqrlHardLockSqrlUse: clientRequestInfo.hardLockSqrlUse,
+      };
+      await this.userTable.updateAsync({ _id: authInfo.user._id }, { $set: options });
+      authInfo.user = { ...authInfo.user, ...options };
     } else {
       // Didn't already exist, create an initial version.
       let newRecord = UserDBRecord.newFromClientRequestInfo(clientRequestInfo);
-      let result: UserDBRecord = await (<any> this.userTable).insertAsync(newRecord);
+      let result: UserDBRecord = await this.userTable.insertAsync(newRecord);
       authInfo.user = result;
       authInfo.tifValues = 0;
     }
+    return authInfo;
+  }
 
+  // See doc comments on ISQRLIdentityStorage.loginCompletedAsync().
+  public async loginCompletedAsync(originalLoginNut: string, user: UserDBRecord): Promise<void> {
     // Update the nut record for the original SQRL URL, which may be getting polled by the /pollNut
-    // route right now, with a reference to the user record.
-    let originalNutRecord: NutDBRecord | null = <NutDBRecord> nutInfo;  // Full info was returned from our query
-    if (originalNutRecord.originalLoginNut) {
+    // route right now, with a reference to the user record. No update happens if the record was
+    // timed out from storage.
+    await this.nutTable.updateAsync(
+        { nut: originalLoginNut },
+        { $set: { loggedIn: true, clientPrimaryIdentityPublicKey: user.sqrlPrimaryIdentityPublicKey } });
+  }
+
+  // See doc comments on ISQRLIdentityStorage.identityDisabledAtLoginAsync().
+  public async identityDisabledAtLoginAsync(originalLoginNut: string): Promise<void> {
+    await this.nutTable.updateAsync({ nut: originalLoginNut }, { $set: { identityDisabled: true } });
+  }
+
+  // See doc comments on ISQRLIdentityStorage.getLoginStatusAsync().
+  public async getLoginStatusAsync(nut: string): Promise<LoginStatusInfo | null> {
+    let nutRecord: NutDBRecord | null = await this.getNutRecordAsync(nut);
+    if (nutRecord && nutRecord.originalLoginNut) {
+      nutRecord = await this.getNutRecordAsync(nutRecord.originalLoginNut);
+    }
+    if (!nutRecord) {
+      return null;
+    }
+    return <LoginStatusInfo> {
+      identityDisabled: nutRecord.identityDisabled,
+      issuedAt: nutRecord.issuedAt,
+      loginCompleted: nutRecord.loggedIn,
+    };
+  }
+
+  // See doc comments on ISQRLIdentityStorage.consumeCompletedLoginAsync().
+  public async consumeCompletedLoginAsync(nut: string): Promise<UserDBRecord | null> {
+    let nutRecord: NutDBRecord | null = await this.getNutRecordAsync(nut);
+    if (nutRecord && nutRecord.originalLoginNut) {
       // We have a later nut record, find the original.
-      originalNutRecord = await this.getNutRecordAsync(originalNutRecord.originalLoginNut);
+      nutRecord = await this.getNutRecordAsync(nutRecord.originalLoginNut);
     }
-    if (originalNutRecord) {  // May have become null when trying to find the original if it was timed out from storage
-      originalNutRecord.loggedIn = true;
-      originalNutRecord.clientPrimaryIdentityPublicKey = (<UserDBRecord> authInfo.user).sqrlPrimaryIdentityPublicKey;
-      await (<any> this.nutTable).updateAsync({ nut: originalNutRecord.nut }, originalNutRecord);
+    if (!nutRecord || !nutRecord.clientPrimaryIdentityPublicKey) {
+      return null;
     }
-    return authInfo;
+
+    // Conditional update so that only one caller logs in with the record.
+    let numUpdated: number = await this.nutTable.updateAsync(
+        { nut: nutRecord.nut, loggedIn: true },
+        { $set: { loggedIn: false } });
+    if (!numUpdated) {
+      return null;
+    }
+    let searchRecord = <UserDBRecord> {
+      sqrlPrimaryIdentityPublicKey: nutRecord.clientPrimaryIdentityPublicKey,
+    };
+    return await this.userTable.findOneAsync(searchRecord);
   }
 
   public disableAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> {
-    // SQRL identity disable request.
-    return Promise.resolve(new AuthCompletionInfo());  // TODO
+    // SQRL identity disable request. The library has checked that the identity is known.
+    return this.setDisabledAsync(clientRequestInfo, true);
   }
 
   public enableAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> {
-    // SQRL identity enable request.
-    return Promise.resolve(new AuthCompletionInfo());  // TODO
+    // SQRL identity enable request. The library has verified the urs= signature.
+    return this.setDisabledAsync(clientRequestInfo, false);
+  }
+
+  public async removeAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> {
+    // SQRL identity remove request. The library has checked that the identity is disabled
+    // and verified the urs= signature.
+    let searchRecord = <UserDBRecord> {
+      sqrlPrimaryIdentityPublicKey: clientRequestInfo.primaryIdentityPublicKey
+    };
+    await this.userTable.removeAsync(searchRecord, {});
+    return new AuthCompletionInfo();
   }
 
-  public removeAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> {
-    // SQRL identity remove request.
-    return Promise.resolve(new AuthCompletionInfo());  // TODO
+  private async setDisabledAsync(clientRequestInfo: ClientRequestInfo, disabled: boolean): Promise<AuthCompletionInfo> {
+    let authInfo: AuthCompletionInfo = await this.findUserByEitherKeyAsync(clientRequestInfo);
+    if (authInfo.user) {
+      let user = <UserDBRecord> authInfo.user;
+      user.sqrlDisabled = disabled;
+      await this.userTable.updateAsync({ _id: user._id }, { $set: { sqrlDisabled: disabled } });
+    }
+    return authInfo;
   }
 
   private async getNutRecordAsync(nut: string): Promise<NutDBRecord | null> {
     let searchRecord = { nut: nut };
-    let nutRecord: NutDBRecord | null = await (<any> this.nutTable).findOneAsync(searchRecord);
+    let nutRecord: NutDBRecord | null = await this.nutTable.findOneAsync(searchRecord);
     return nutRecord;
   }
 
@@ -411,7 +481,7 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
     }
     let searchRecord = { $or: keyMatches };
 
-    let doc: UserDBRecord = await (<any> this.userTable).findOneAsync(searchRecord);
+    let doc: UserDBRecord = await this.userTable.findOneAsync(searchRecord);
     if (doc != null) {
       result.user = doc;
       if (doc.sqrlPrimaryIdentityPublicKey === clientRequestInfo.primaryIdentityPublicKey) {
@@ -425,41 +495,6 @@ export class TestSiteHandler implements ISQRLIdentityStorage {
     return result;
   }
 
-  private async findAndUpdateOrCreateUserAsync(clientRequestInfo: ClientRequestInfo): Promise<AuthCompletionInfo> {
-    // Treat the SQRL client's public key as a primary search key in the database.
-    let searchRecord = <UserDBRecord> {
-      sqrlPrimaryIdentityPublicKey: clientRequestInfo.primaryIdentityPublicKey,
-    };
-    let result = await (<any> this.userTable).findOneAsync(searchRecord);
-    if (result == null) {
-      // Not found by primary key. Maybe this is an identity change situation.
-      // If a previous key was provided, search again.
-      if (clientRequestInfo.previousIdentityPublicKey) {
-        searchRecord.sqrlPrimaryIdentityPublicKey = clientRequestInfo.previousIdentityPublicKey;
-        let prevKeyDoc: UserDBRecord = await (<any> this.userTable).findOneAsync(searchRecord);
-        if (prevKeyDoc == null) {
-          // Didn't already exist, create an initial version if this is a login API request.
-          if (clientRequestInfo.sqrlCommand === 'ident') {
-            let newRecord = UserDBRecord.newFromClientRequestInfo(clientRequestInfo);
-            result = await (<any> this.userTable).insertAsync(newRecord);
-          }
-        } else {
-          // The user has specified a new primary key, rearrange the record and update.
-          if (!prevKeyDoc.sqrlPreviousIdentityPublicKeys) {
-            prevKeyDoc.sqrlPreviousIdentityPublicKeys = [];
-          }
-          prevKeyDoc.sqrlPreviousIdentityPublicKeys.push(clientRequestInfo.previousIdentityPublicKey);
-          prevKeyDoc.sqrlPrimaryIdentityPublicKey = clientRequestInfo.primaryIdentityPublicKey;
-          await (<any> this.userTable).updateAsync(searchRecord, prevKeyDoc);
-          result = prevKeyDoc;
-        }
-      }
-    }
-    let authInfo = new AuthCompletionInfo();
-    authInfo.user = result;
-    return authInfo;
-  }
-
   private getLocalIPAddresses(): string[] {
     let interfaces = os.networkInterfaces();
     let addresses: string[] = [];
@@ -496,13 +531,10 @@ class UserDBRecord {
       sqrlServerUnlockPublicKey: clientRequestInfo.serverUnlockPublicKey,
       sqrlServerVerifyUnlockPublicKey: clientRequestInfo.serverVerifyUnlockPublicKey,
       sqrlUseSqrlIdentityOnly: clientRequestInfo.useSqrlIdentityOnly,
-      sqrlHardLockSqrlUse: clientRequestInfo.hardLockSqrlUse
+      sqrlHardLockSqrlUse: clientRequestInfo.hardLockSqrlUse,
+      sqrlDisabled: false
     };
 
-    if (clientRequestInfo.previousIdentityPublicKey) {
-      result.sqrlPreviousIdentityPublicKeys.push(clientRequestInfo.previousIdentityPublicKey);
-    }
-
     return result;
   }
 
@@ -519,7 +551,7 @@ class UserDBRecord {
    */
   public sqrlPrimaryIdentityPublicKey?: string;
 
-  /** Up to four previously seen previous identity keys, for reference. */
+  /** Up to four identity keys replaced by rekeying, most recent first, for reference. */
   public sqrlPreviousIdentityPublicKeys: string[] = [];
   
   /** The client-provided identity unlock public key, which the client can query to form an identoty change key. */
@@ -536,6 +568,9 @@ class UserDBRecord {
    * in favor solely of SQRL related identity recovery.
    */
   public sqrlHardLockSqrlUse: boolean = false;
+
+  /** The client has disabled this identity; SQRL logins are refused until it is re-enabled. */
+  public sqrlDisabled: boolean = false;
 }
 
 class NutDBRecord extends NutInfo {
@@ -543,29 +578,22 @@ class NutDBRecord extends NutInfo {
   // tslint:disable-next-line
   public _id?: string;
 
-  /** The URL containing the nut. */
-  public url?: string;
-
-  /** When the nut was created, for sweeping old entries. */
-  public createdAt: Date;
-
   /** Whether the nut was successfully logged in. Updated on login. */
   public loggedIn: boolean = false;
 
   /** The primary public key of a user if a successful login was recorded for this nut. */
   public clientPrimaryIdentityPublicKey?: string;
 
-  constructor(nut: string, url?: string, originalLoginNut?: string) {
+  /** Whether the SQRL client presented a disabled identity for this login. */
+  public identityDisabled: boolean = false;
+
+  constructor(urlAndNut: UrlAndNut, originalLoginNut?: string) {
     super();
-    this.nut = nut;
-    this.url = url;
+    this.nut = urlAndNut.nutString;
+    this.url = urlAndNut.url;
+    this.serverResponseBody = urlAndNut.serverResponseBody;
+    this.requesterIp = urlAndNut.requesterIp;
+    this.issuedAt = urlAndNut.issuedAt;
     this.originalLoginNut = originalLoginNut;
-    this.createdAt = new Date();
   }
 }
-
-/** Returned from /pollNut call. login.ejs makes use of this along with the cookie header. */
-class NutPollResult {
-  public loggedIn: boolean = false;
-  public redirectTo?: string;
-}
@@ -8,10 +8,35 @@ $(document).ready(() => {
   sqrlNut = $('#sqrl-nut').text();
   console.log(`Found SQRL nut ${sqrlNut}`);
 
-  // Poll the back-end to see if a phone login has occurred.
-  setTimeout(pollNut, nutCheckIntervalMsec);
+  // Wait for the back-end to push a phone login, or poll for it if the browser or a proxy
+  // does not support Server-Sent Events.
+  if (window.EventSource) {
+    waitForLoginEvent();
+  } else {
+    setTimeout(pollNut, nutCheckIntervalMsec);
+  }
 });
 
+function waitForLoginEvent() {
+  $('#login-text').text(`Waiting for login at /loginEvents/${sqrlNut}`);
+  let events = new EventSource(`/loginEvents/${sqrlNut}`);
+  events.addEventListener('status', event => {
+    events.close();
+    // Data is a NutPollResult. A completed login still needs one poll to store the session cookie.
+    let data = JSON.parse(event.data);
+    if (data.status === 'completed') {
+      pollNut();
+    } else {
+      showPollResult(data);
+    }
+  });
+  events.onerror = () => {
+    console.log('Login event stream failed, falling back to polling');
+    events.close();
+    setTimeout(pollNut, nutCheckIntervalMsec);
+  };
+}
+
 function resetLoginText() {
   spinIndex = (spinIndex + 1) % spinChars.length;
   $('#login-text').text(spinChars[spinIndex]);
@@ -28,16 +53,22 @@ function pollNut() {
       $("#login-text").text(`ERROR getting nut status: ${textStatus}: ${errorThrown}`);
       setTimeout(resetLoginText, nutCheckIntervalMsec / 2);
     },
-    success: (data, textStatus, jqXHR) => {
-      // Store the login cookie value and Redirect the page if the nut was logged in.
-      // Data is a NutPollResult
-      if (data && data.loggedIn) {
-        $("#login-text").text(`Success! Browser stored updated cookie containing session. Redirecting to ${data.redirectTo} in a few seconds`);
-        setTimeout(() => window.location.href = data.redirectTo, 4000);
-      } else {
-        // Normal case: No login.
-        setTimeout(resetLoginText, nutCheckIntervalMsec / 2);
-      }
-    }
+    success: (data, textStatus, jqXHR) => showPollResult(data)
   });
 }
+
+function showPollResult(data) {
+  // Store the login cookie value and Redirect the page if the nut was logged in.
+  // Data is a NutPollResult
+  if (data && data.loggedIn) {
+    $("#login-text").text(`Success! Browser stored updated cookie containing session. Redirecting to ${data.redirectTo} in a few seconds`);
+    setTimeout(() => window.location.href = data.redirectTo, 4000);
+  } else if (data && data.status === 'expired') {
+    $("#login-text").text('The login code has expired. Reload the page to get a new one.');
+  } else if (data && data.status === 'disabled') {
+    $("#login-text").text('Your SQRL identity is disabled. Re-enable it with your rescue code in your SQRL client.');
+  } else {
+    // Normal case: No login.
+    setTimeout(resetLoginText, nutCheckIntervalMsec / 2);
+  }
+}